@@ -92,4 +92,11 @@ export default tseslint.config(
       '@typescript-eslint/ban-ts-comment': 'off',
     },
   },
+  {
+    files: ['src/types/ai.ts'],
+    rules: {
+      // `AIRegisteredProviders` starts empty for users to augment
+      '@typescript-eslint/no-empty-object-type': ['error', { allowInterfaces: 'always' }],
+    },
+  },
 );
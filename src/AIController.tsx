@@ -0,0 +1,149 @@
+import React, { useEffect, useReducer } from 'react';
+import {
+  useController,
+  useFormContext,
+  FieldPath,
+  FieldValues,
+  UseControllerProps,
+  UseControllerReturn,
+} from 'react-hook-form';
+import type { AIFieldOptions, AIFieldSuggestion } from './types';
+import { getAIFormBridge } from './utils/formBridge';
+
+export type UseAIControllerProps<
+  T extends FieldValues = FieldValues,
+  TName extends FieldPath<T> = FieldPath<T>
+> = UseControllerProps<T, TName> & {
+  /** Per-field AI settings, as for `register` */
+  ai?: AIFieldOptions;
+};
+
+export interface UseAIControllerReturn<
+  T extends FieldValues = FieldValues,
+  TName extends FieldPath<T> = FieldPath<T>
+> extends UseControllerReturn<T, TName> {
+  /** The pending suggestion for this field */
+  aiSuggestion: AIFieldSuggestion | undefined;
+  /** Whether a suggestion for this field is being fetched */
+  aiLoading: boolean;
+  /** Get a suggestion for the current value; rejects with an `AIError` on failure */
+  aiSuggest: () => Promise<string | null>;
+  /** Apply the pending suggestion and clear it */
+  aiAcceptSuggestion: () => void;
+  /** Discard the pending suggestion */
+  aiRejectSuggestion: () => void;
+}
+
+export type AIControllerProps<
+  T extends FieldValues = FieldValues,
+  TName extends FieldPath<T> = FieldPath<T>
+> = UseAIControllerProps<T, TName> & {
+  render: (props: UseAIControllerReturn<T, TName>) => React.ReactElement;
+};
+
+/**
+ * Custom components call `onChange` with either an event or the value itself
+ */
+function getChangeValue(event: unknown): unknown {
+  const target = (event as { target?: { value?: unknown } } | null)?.target;
+  return target && typeof target === 'object' ? target.value : event;
+}
+
+/**
+ * `useController` with the AI suggestions of `register`. The control must
+ * come from this package's `useForm`; otherwise it behaves like `useController`.
+ *
+ * @example
+ * ```tsx
+ * const { field, aiSuggestion, aiAcceptSuggestion } = useAIController({
+ *   name: 'country',
+ *   control,
+ *   ai: { trigger: 'change' },
+ * });
+ * ```
+ */
+export function useAIController<
+  T extends FieldValues = FieldValues,
+  TName extends FieldPath<T> = FieldPath<T>
+>(props: UseAIControllerProps<T, TName>): UseAIControllerReturn<T, TName> {
+  const { ai: fieldOptions, ...controllerProps } = props;
+  const methods = useFormContext<T>();
+  const control = controllerProps.control ?? methods.control;
+  const controller = useController<T, TName>({ ...controllerProps, control });
+
+  const handle = getAIFormBridge(control);
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  // Suggestions and loading state live in useForm, which may render elsewhere
+  useEffect(() => {
+    const listener = () => rerender();
+    handle.listeners.add(listener);
+    return () => {
+      handle.listeners.delete(listener);
+    };
+  }, [handle]);
+
+  const name = String(props.name);
+  const bridge = handle.current?.isEnabled(name) ? handle.current : null;
+  bridge?.trackField(name, props.rules, fieldOptions);
+
+  const { field } = controller;
+  const trigger = fieldOptions?.trigger ?? 'blur';
+
+  return {
+    ...controller,
+    field: bridge
+      ? {
+          ...field,
+          ref: (el: any) => {
+            field.ref(el);
+            if (el && typeof el.tagName === 'string') {
+              bridge.trackElement(name, el);
+            }
+          },
+          onChange: (...event: any[]) => {
+            // A new value makes any pending suggestion for this field stale
+            bridge.cancel(name);
+            if (bridge.getSuggestion(name)) bridge.reject(name);
+            field.onChange(...event);
+            if (trigger === 'change') {
+              bridge.scheduleSuggestion(name, getChangeValue(event[0]));
+            }
+          },
+          onBlur: () => {
+            field.onBlur();
+            if (trigger === 'blur') {
+              bridge.cancel(name);
+              bridge.scheduleSuggestion(name, field.value);
+            }
+          },
+        }
+      : field,
+    aiSuggestion: bridge?.getSuggestion(name),
+    aiLoading: bridge?.isLoading(name) ?? false,
+    aiSuggest: async () => (bridge ? bridge.suggest(name) : null),
+    aiAcceptSuggestion: () => bridge?.accept(name),
+    aiRejectSuggestion: () => bridge?.reject(name),
+  };
+}
+
+/**
+ * `Controller` with the AI suggestions of `register`
+ *
+ * @example
+ * ```tsx
+ * <AIController
+ *   name="startDate"
+ *   control={control}
+ *   render={({ field, aiSuggestion, aiAcceptSuggestion }) => (
+ *     <DatePicker {...field} hint={aiSuggestion?.value} onHintClick={aiAcceptSuggestion} />
+ *   )}
+ * />
+ * ```
+ */
+export function AIController<
+  T extends FieldValues = FieldValues,
+  TName extends FieldPath<T> = FieldPath<T>
+>({ render, ...props }: AIControllerProps<T, TName>) {
+  return render(useAIController<T, TName>(props as UseAIControllerProps<T, TName>));
+}
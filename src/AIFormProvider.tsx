@@ -1,5 +1,15 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import type { AIProvider, AIFormContextValue, AIProviderType } from './types';
+import type {
+  AIProvider,
+  AIFormContextValue,
+  AIProviderType,
+  AIFallbackPolicy,
+  AILoggerConfig,
+  AIPrivacyOptions,
+  AIPromptOptions,
+  AIResilienceOptions,
+  AICacheOptions,
+} from './types';
 
 const AIFormContext = createContext<AIFormContextValue | null>(null);
 
@@ -7,10 +17,24 @@ export interface AIFormProviderProps {
   children: ReactNode;
   providers: AIProvider[];
   executionOrder?: AIProviderType[];
-  fallbackOnError?: boolean;
+  fallbackOnError?: AIFallbackPolicy;
+  /** Defaults for provider timeouts, retries and circuit breakers */
+  resilience?: AIResilienceOptions;
+  /** Log level or handler for AI events (default: silent in production, warnings otherwise) */
+  logger?: AILoggerConfig;
+  /** Which field values may be sent to which providers */
+  privacy?: AIPrivacyOptions;
+  /** System prompt, per-field instructions and prompt templates */
+  prompts?: AIPromptOptions;
+  /** BCP 47 language tag for suggestions, autofill and other generated text, e.g. `de` */
+  locale?: string;
+  /** Reuse suggestion and autofill responses for unchanged fields, values and context */
+  cache?: boolean | AICacheOptions;
   enabled?: boolean;
   debounceMs?: number;
   excludeFields?: string[];
+  /** Fields whose values are sent as context with each request (default: all) */
+  contextFields?: string[];
 }
 
 export function AIFormProvider({
@@ -18,9 +42,16 @@ export function AIFormProvider({
   providers,
   executionOrder,
   fallbackOnError = true,
+  resilience,
+  logger,
+  privacy,
+  prompts,
+  locale,
+  cache,
   enabled = true,
   debounceMs = 800,
   excludeFields = [],
+  contextFields,
 }: AIFormProviderProps) {
   const sortedProviders = React.useMemo(() => {
     if (executionOrder && executionOrder.length > 0) {
@@ -37,9 +68,16 @@ export function AIFormProvider({
     providers,
     executionOrder: sortedProviders,
     fallbackOnError,
+    resilience,
+    logger,
+    privacy,
+    prompts,
+    locale,
+    cache,
     enabled,
     debounceMs,
     excludeFields,
+    contextFields,
   };
 
   return (
@@ -0,0 +1,181 @@
+import { createAIProvider } from './aiProviders';
+import type { OllamaConfig } from './types';
+
+interface StubRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * A stub server answering with `routes[path]`; requests are recorded by path
+ */
+function stubServer(routes: Record<string, (request: StubRequest) => { status?: number; body: unknown }>) {
+  const requests: Record<string, StubRequest> = {};
+  window.fetch = jest.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const { pathname } = new URL(String(input));
+    const request: StubRequest = {
+      method: init.method ?? 'GET',
+      headers: init.headers as Record<string, string>,
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    };
+    requests[pathname] = request;
+
+    const route = routes[pathname];
+    const { status = 200, body } = route ? route(request) : { status: 404, body: { error: 'not found' } };
+    return {
+      ok: status < 300,
+      status,
+      statusText: '',
+      headers: { get: () => null },
+      json: async () => body,
+      text: async () => JSON.stringify(body),
+    } as unknown as Response;
+  });
+  return requests;
+}
+
+const originalFetch = window.fetch;
+
+afterEach(() => {
+  window.fetch = originalFetch;
+});
+
+const fields = [{ name: 'city' }, { name: 'zip' }];
+
+describe('Ollama provider', () => {
+  const config: OllamaConfig = { type: 'ollama', model: 'llama3.2', apiUrl: 'http://localhost:11434/' };
+
+  it('is available when the model is pulled, matching its :latest tag', async () => {
+    stubServer({ '/api/tags': () => ({ body: { models: [{ name: 'llama3.2:latest', model: 'llama3.2:latest' }] } }) });
+
+    await expect(createAIProvider(config).checkAvailability()).resolves.toEqual({
+      available: true,
+      status: 'ready',
+      needsDownload: false,
+    });
+  });
+
+  it('reports a model that is not pulled', async () => {
+    stubServer({ '/api/tags': () => ({ body: { models: [{ name: 'mistral:latest' }] } }) });
+
+    await expect(createAIProvider(config).checkAvailability()).resolves.toMatchObject({
+      available: false,
+      status: 'model-not-found',
+    });
+  });
+
+  it('reports an unreachable server as unavailable', async () => {
+    stubServer({ '/api/tags': () => ({ status: 502, body: {} }) });
+
+    await expect(createAIProvider(config).checkAvailability()).resolves.toMatchObject({
+      available: false,
+      status: 'unavailable',
+    });
+  });
+
+  it('autofills in JSON mode without an API key', async () => {
+    const requests = stubServer({
+      '/api/chat': () => ({ body: { message: { content: '{"city": "Berlin", "zip": "10115"}' } } }),
+    });
+
+    await expect(createAIProvider(config).autofill(fields, {})).resolves.toEqual({
+      city: 'Berlin',
+      zip: '10115',
+    });
+    expect(requests['/api/chat'].body).toMatchObject({ model: 'llama3.2', format: 'json', stream: false });
+    expect(requests['/api/chat'].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('rejects with the HTTP error of a failed request', async () => {
+    stubServer({ '/api/chat': () => ({ status: 404, body: { error: 'model "llama3.2" not found' } }) });
+
+    await expect(createAIProvider(config).suggestValue('city', 'Berln', {})).rejects.toMatchObject({
+      name: 'AIHTTPError',
+      status: 404,
+      provider: 'ollama',
+    });
+  });
+});
+
+describe('Ollama provider with an OpenAI-compatible API', () => {
+  const config: OllamaConfig = {
+    type: 'ollama',
+    api: 'openai-compatible',
+    model: 'qwen2.5-7b-instruct',
+    apiUrl: 'http://localhost:8000/v1',
+  };
+
+  it('discovers models via /v1/models', async () => {
+    const requests = stubServer({
+      '/v1/models': () => ({ body: { object: 'list', data: [{ id: 'qwen2.5-7b-instruct', object: 'model' }] } }),
+    });
+
+    await expect(createAIProvider(config).checkAvailability()).resolves.toMatchObject({ available: true });
+    expect(requests['/v1/models'].headers).not.toHaveProperty('Authorization');
+
+    stubServer({ '/v1/models': () => ({ body: { data: [{ id: 'other-model' }] } }) });
+    await expect(createAIProvider(config).checkAvailability()).resolves.toMatchObject({
+      status: 'model-not-found',
+    });
+  });
+
+  it('autofills through chat completions in JSON mode', async () => {
+    const requests = stubServer({
+      '/v1/chat/completions': () => ({
+        body: { choices: [{ message: { content: '{"city": "Paris", "zip": "75001"}' } }] },
+      }),
+    });
+
+    await expect(createAIProvider(config).autofill(fields, {})).resolves.toEqual({ city: 'Paris', zip: '75001' });
+    expect(requests['/v1/chat/completions'].body).toMatchObject({
+      model: 'qwen2.5-7b-instruct',
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('sends the API key of a gateway that needs one', async () => {
+    const requests = stubServer({
+      '/v1/chat/completions': () => ({ body: { choices: [{ message: { content: 'Berlin' } }] } }),
+    });
+
+    const provider = createAIProvider({ ...config, apiKey: 'gateway-key' });
+    await expect(provider.suggestValue('city', 'Berln', {})).resolves.toEqual({
+      suggestion: 'Berlin',
+      provider: 'ollama',
+    });
+    expect(requests['/v1/chat/completions'].headers).toMatchObject({ Authorization: 'Bearer gateway-key' });
+  });
+});
+
+describe('OpenAI provider', () => {
+  const reply = () => ({ body: { choices: [{ message: { content: '{"city": "Rome", "zip": "00118"}' } }] } });
+
+  it('autofills in JSON mode with the default model', async () => {
+    const requests = stubServer({ '/v1/chat/completions': reply });
+
+    const provider = createAIProvider({ type: 'openai', apiKey: 'sk-test' });
+    await expect(provider.autofill(fields, {})).resolves.toEqual({ city: 'Rome', zip: '00118' });
+    expect(requests['/v1/chat/completions'].body).toMatchObject({
+      model: 'gpt-3.5-turbo',
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('sends a JSON schema when structured outputs are enabled', async () => {
+    const requests = stubServer({ '/v1/chat/completions': reply });
+
+    const provider = createAIProvider({
+      type: 'openai',
+      apiKey: 'sk-test',
+      model: 'gpt-4o-mini',
+      responseFormat: 'json_schema',
+    });
+    await provider.autofill(fields, {});
+
+    expect(requests['/v1/chat/completions'].body.response_format).toMatchObject({
+      type: 'json_schema',
+      json_schema: { strict: true, schema: { required: ['city', 'zip'] } },
+    });
+  });
+});
@@ -1,6 +1,59 @@
-import type { AIProvider, AIResponse, AIProviderType } from './types';
-
-type AutofillData = Record<string, string>;
+import type {
+  AIAutofillData,
+  AIAutofillOptions,
+  AICapabilities,
+  AICapabilityStatus,
+  AIExtractData,
+  AIExtractInput,
+  AIExtractOptions,
+  AIFallbackPolicy,
+  AIFieldDescriptor,
+  AIProvider,
+  AIProviderExecutor,
+  AIProviderFactory,
+  AIPromptOptions,
+  AIProofreadOptions,
+  AIProofreadResult,
+  AIProviderType,
+  AIRequestOptions,
+  AIResilienceOptions,
+  AIResponse,
+  AIRewriteOptions,
+  AISuggestOptions,
+  AISummarizeOptions,
+  AITokenHandler,
+  AITranslateOptions,
+  AIWriteOptions,
+  BuiltInAIProvider,
+  SummaryStyle,
+} from './types';
+import { isAbortError, throwIfAborted } from './utils/abort';
+import type { ChromeSessionHandle } from './utils/chromeSession';
+import { acquireChromeSession } from './utils/chromeSession';
+import { AIError, AIHTTPError, toAIError } from './errors';
+import { readExtractText, toExtractData } from './utils/extract';
+import { buildAutofillSchema, buildExtractSchema } from './utils/fieldSchema';
+import { parseJSONObject } from './utils/json';
+import type { AILogger } from './utils/logger';
+import { createLogger } from './utils/logger';
+import type { AIPrompt } from './utils/prompts';
+import {
+  buildAutofillPrompt,
+  buildExtractPrompt,
+  buildSuggestPrompt,
+  buildSummaryPrompt,
+  buildTranslatePrompt,
+  describeFormValues,
+  withInstructions,
+} from './utils/prompts';
+import {
+  getCircuitBreaker,
+  getRetryDelay,
+  resolveResilience,
+  sleep,
+  withTimeout,
+} from './utils/resilience';
+import { readEventStream, readTextStream } from './utils/streaming';
 
 // Chrome Built-in AI types
 declare global {
@@ -31,43 +84,146 @@ declare global {
   }
 }
 
-interface AIProviderExecutor {
-  suggestValue(
-    fieldName: string,
-    currentValue: string,
-    formContext: Record<string, any>
-  ): Promise<AIResponse | null>;
-  
-  autofill(
-    fields: string[],
-    formContext: Record<string, any>,
-    onProgress?: (progress: number) => void
-  ): Promise<AutofillData | null>;
-  
-  checkAvailability(): Promise<{
-    available: boolean;
-    status: string;
-    needsDownload: boolean;
-  }>;
+function suggestPrompt(
+  fieldName: string,
+  currentValue: string,
+  formContext: Record<string, any>,
+  options?: AISuggestOptions
+): AIPrompt {
+  return buildSuggestPrompt(options?.field ?? { name: fieldName }, currentValue, formContext, options?.prompts);
+}
+
+function translatePrompt(text: string, options: AITranslateOptions): AIPrompt {
+  return buildTranslatePrompt(
+    text,
+    options.field ?? { name: 'text' },
+    options.targetLocale,
+    options.sourceLocale,
+    options.prompts
+  );
+}
+
+// Summarizer API length for each style, without and with `includeDetails`
+const SUMMARIZER_LENGTHS: Record<SummaryStyle, ['short' | 'medium' | 'long', 'short' | 'medium' | 'long']> = {
+  bullet: ['medium', 'long'],
+  short: ['short', 'medium'],
+  long: ['long', 'long'],
+};
+
+function downloadMonitor(onProgress?: (progress: number) => void) {
+  return onProgress
+    ? (m: DownloadMonitor) => {
+        m.addEventListener('downloadprogress', (e) => {
+          onProgress(e.loaded * 100);
+        });
+      }
+    : undefined;
+}
+
+function taskUnavailable(api: string): AIError {
+  return new AIError(`Chrome's ${api} API is not available in this browser`, 'unavailable', {
+    provider: 'chrome',
+  });
+}
+
+/**
+ * Context for Chrome's task APIs about the field the text belongs to
+ */
+function fieldContext(field?: AIFieldDescriptor): string | undefined {
+  if (!field) return undefined;
+  const context = `The "${field.label || field.name}" field of a web form.`;
+  return field.instructions ? `${context} ${field.instructions}` : context;
+}
+
+/**
+ * What the browser supports; APIs that throw count as unavailable
+ */
+async function checkChromeCapabilities(): Promise<AICapabilities> {
+  const check = async (
+    api: { availability(): Promise<string> } | undefined
+  ): Promise<AICapabilityStatus> => {
+    try {
+      const status = api ? await api.availability() : 'unavailable';
+      // Older Chrome versions report `readily`
+      return status === 'readily' ? 'available' : (status as AICapabilityStatus);
+    } catch {
+      return 'unavailable';
+    }
+  };
+
+  const [prompt, summarizer, languageDetector, proofreader, rewriter, writer] = await Promise.all([
+    check(typeof LanguageModel === 'undefined' ? undefined : LanguageModel),
+    check(typeof Summarizer === 'undefined' ? undefined : Summarizer),
+    check(typeof LanguageDetector === 'undefined' ? undefined : LanguageDetector),
+    check(typeof Proofreader === 'undefined' ? undefined : Proofreader),
+    check(typeof Rewriter === 'undefined' ? undefined : Rewriter),
+    check(typeof Writer === 'undefined' ? undefined : Writer),
+  ]);
+  // Language pairs are only known when translating, so only the API itself is checked
+  const translator = typeof Translator === 'undefined' ? 'unavailable' : 'available';
+  return { prompt, summarizer, translator, languageDetector, proofreader, rewriter, writer };
+}
+
+function chatMessages(prompt: AIPrompt) {
+  return [
+    { role: 'system', content: prompt.system },
+    { role: 'user', content: prompt.user },
+  ];
 }
 
 /**
  * Chrome Built-in AI Provider
  */
 class ChromeAIProvider implements AIProviderExecutor {
-  async checkAvailability() {
-    if (typeof window === 'undefined' || typeof LanguageModel === 'undefined') {
+  constructor(private config: Extract<AIProvider, { type: 'chrome' }>) {}
+
+  private async openSession(
+    systemPrompt: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<ChromeSessionHandle> {
+    if (typeof LanguageModel === 'undefined') {
+      throw new AIError('Chrome built-in AI is not available in this browser', 'unavailable', {
+        provider: 'chrome',
+      });
+    }
+
+    return acquireChromeSession(
+      {
+        reuse: this.config.sessionReuse,
+        temperature: this.config.temperature,
+        topK: this.config.topK,
+        systemPrompt,
+      },
+      { signal, monitor: downloadMonitor(onProgress) }
+    );
+  }
+
+  /**
+   * Reports the Prompt API's status, and the task APIs under `capabilities`
+   */
+  async checkAvailability(options?: AIRequestOptions) {
+    if (typeof window === 'undefined') {
       return { available: false, status: 'unavailable', needsDownload: false };
     }
 
     try {
+      throwIfAborted(options?.signal);
+      const capabilities = await checkChromeCapabilities();
+      throwIfAborted(options?.signal);
+      if (typeof LanguageModel === 'undefined') {
+        return { available: false, status: 'unavailable', needsDownload: false, capabilities };
+      }
+
       const availability = await LanguageModel.availability();
       return {
         available: availability !== 'unavailable',
         status: availability,
         needsDownload: availability === 'downloadable',
+        capabilities,
       };
-    } catch {
+    } catch (err) {
+      if (isAbortError(err)) throw err;
       return { available: false, status: 'error', needsDownload: false };
     }
   }
@@ -75,74 +231,329 @@ class ChromeAIProvider implements AIProviderExecutor {
   async suggestValue(
     fieldName: string,
     currentValue: string,
-    formContext: Record<string, any>
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
   ): Promise<AIResponse | null> {
+    const prompt = suggestPrompt(fieldName, currentValue, formContext, options);
+    const { session, release } = await this.openSession(prompt.system, options?.signal);
+    let result: string;
     try {
-      const prompt = `You are assisting with form completion. The user is filling out a field named "${fieldName}".
-
-Current value: "${currentValue}"
-Form context: ${JSON.stringify(formContext, null, 2)}
+      result = await session.prompt(prompt.user, { signal: options?.signal });
+    } finally {
+      release();
+    }
 
-Based on the field name, current value, and form context, suggest an improved, corrected, or realistic completion for this field.
+    const cleaned = result.trim().replace(/^["']|["']$/g, '');
+    return { suggestion: cleaned, provider: 'chrome' };
+  }
 
-Rules:
-- Respond with ONLY the suggested value
-- No explanations or additional text
-- If the current value is already good, return it as-is
-- Make sure the suggestion is appropriate for the field name
+  async suggestValueStream(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const prompt = suggestPrompt(fieldName, currentValue, formContext, options);
+    const { session, release } = await this.openSession(prompt.system, options?.signal);
+    let result: string;
+    try {
+      const stream = session.promptStreaming(prompt.user, { signal: options?.signal });
+      result = await readTextStream(stream, onToken);
+    } finally {
+      release();
+    }
 
-Suggested value:`;
+    const cleaned = result.trim().replace(/^["']|["']$/g, '');
+    return cleaned ? { suggestion: cleaned, provider: 'chrome' } : null;
+  }
 
-      const session = await LanguageModel.create();
-      const result = await session.prompt(prompt);
-      session.destroy();
+  async autofill(
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null> {
+    const prompt = buildAutofillPrompt(
+      fields,
+      formContext,
+      options?.corrections,
+      options?.prompts
+    );
+    const { session, release } = await this.openSession(
+      prompt.system,
+      options?.signal,
+      options?.onProgress
+    );
 
-      const cleaned = result.trim().replace(/^["']|["']$/g, '');
-      return { suggestion: cleaned, provider: 'chrome' };
-    } catch (err) {
-      console.error('Chrome AI error:', err);
-      return null;
+    let result: string;
+    try {
+      result = await session.prompt(prompt.user, { signal: options?.signal });
+    } finally {
+      release();
     }
+
+    return parseJSONObject(result, 'chrome');
   }
 
-  async autofill(
-    fields: string[],
+  async extract(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
     formContext: Record<string, any>,
-    onProgress?: (progress: number) => void
-  ): Promise<AutofillData | null> {
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null> {
+    const text = await readExtractText(input, 'chrome');
+    const prompt = buildExtractPrompt(text, fields, formContext, options?.prompts);
+    const { session, release } = await this.openSession(
+      prompt.system,
+      options?.signal,
+      options?.onProgress
+    );
+
+    let result: string;
     try {
-      const prompt = `You are an intelligent form assistant. Generate realistic example values for a form.
+      result = await session.prompt(prompt.user, { signal: options?.signal });
+    } finally {
+      release();
+    }
 
-Form fields: ${fields.join(', ')}
-Context: ${JSON.stringify(formContext, null, 2)}
+    return toExtractData(parseJSONObject(result, 'chrome'), fields, text);
+  }
 
-Generate realistic, appropriate values for each field based on the field names and context.
-Output ONLY a valid JSON object with these exact field names as keys.
+  /**
+   * Uses the Summarizer API when the browser has it, unless a custom
+   * summary template asks for the language model
+   */
+  async summarize(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null> {
+    if (typeof Summarizer !== 'undefined' && !options?.prompts?.summaryTemplate) {
+      const summary = await this.summarizeWithSummarizer(values, fields, options);
+      if (summary !== undefined) return summary;
+    }
 
-Example format:
-{"name": "Alice Johnson", "email": "alice@example.com", "age": "29"}
+    const prompt = buildSummaryPrompt(values, fields, options, options?.prompts);
+    const { session, release } = await this.openSession(
+      prompt.system,
+      options?.signal,
+      options?.onProgress
+    );
 
-JSON object:`;
+    let result: string;
+    try {
+      result = await session.prompt(prompt.user, { signal: options?.signal });
+    } finally {
+      release();
+    }
 
-      const session = await LanguageModel.create({
-        monitor(m) {
-          m.addEventListener('downloadprogress', (e) => {
-            onProgress?.(e.loaded * 100);
-          });
-        },
+    return result.trim() || null;
+  }
+
+  /**
+   * Returns `undefined` when the Summarizer API cannot run on this device
+   */
+  private async summarizeWithSummarizer(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null | undefined> {
+    const style = options?.style ?? 'short';
+    const createOptions: SummarizerCreateOptions = {
+      type: style === 'bullet' ? 'key-points' : 'tldr',
+      format: style === 'bullet' ? 'markdown' : 'plain-text',
+      length: SUMMARIZER_LENGTHS[style][options?.includeDetails ? 1 : 0],
+      sharedContext: 'A filled-in web form',
+      outputLanguage: options?.prompts?.locale,
+    };
+
+    if ((await Summarizer.availability(createOptions)) === 'unavailable') {
+      return undefined;
+    }
+
+    const summarizer = await Summarizer.create({
+      ...createOptions,
+      signal: options?.signal,
+      monitor: downloadMonitor(options?.onProgress),
+    });
+
+    try {
+      const summary = await summarizer.summarize(describeFormValues(values, fields), {
+        context: options?.includeDetails ? 'Mention every filled-in field.' : undefined,
+        signal: options?.signal,
       });
+      return summary.trim() || null;
+    } finally {
+      summarizer.destroy();
+    }
+  }
 
-      const result = await session.prompt(prompt);
-      session.destroy();
+  async proofread(text: string, options?: AIProofreadOptions): Promise<AIProofreadResult | null> {
+    const createOptions: ProofreaderCreateOptions = {
+      includeCorrectionTypes: true,
+      includeCorrectionExplanations: true,
+    };
+    if (
+      typeof Proofreader === 'undefined' ||
+      (await Proofreader.availability(createOptions)) === 'unavailable'
+    ) {
+      throw taskUnavailable('Proofreader');
+    }
 
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      return null;
-    } catch (err) {
-      console.error('Chrome AI autofill error:', err);
-      return null;
+    const proofreader = await Proofreader.create({
+      ...createOptions,
+      signal: options?.signal,
+      monitor: downloadMonitor(options?.onProgress),
+    });
+
+    try {
+      const result = await proofreader.proofread(text, { signal: options?.signal });
+      return {
+        corrected: result.correctedInput,
+        corrections: result.corrections.map(correction => ({
+          start: correction.startIndex,
+          end: correction.endIndex,
+          correction: correction.correction,
+          types: correction.types,
+          explanation: correction.explanation,
+        })),
+      };
+    } finally {
+      proofreader.destroy();
+    }
+  }
+
+  async rewrite(text: string, options?: AIRewriteOptions): Promise<string | null> {
+    const createOptions: RewriterCreateOptions = {
+      tone: options?.tone ?? 'as-is',
+      length: options?.length ?? 'as-is',
+      format: 'plain-text',
+    };
+    if (
+      typeof Rewriter === 'undefined' ||
+      (await Rewriter.availability(createOptions)) === 'unavailable'
+    ) {
+      throw taskUnavailable('Rewriter');
+    }
+
+    const rewriter = await Rewriter.create({
+      ...createOptions,
+      sharedContext: fieldContext(options?.field),
+      signal: options?.signal,
+      monitor: downloadMonitor(options?.onProgress),
+    });
+
+    try {
+      const result = await rewriter.rewrite(text, { signal: options?.signal });
+      return result.trim() || null;
+    } finally {
+      rewriter.destroy();
+    }
+  }
+
+  async write(prompt: string, options?: AIWriteOptions): Promise<string | null> {
+    const createOptions: WriterCreateOptions = {
+      tone: options?.tone ?? 'neutral',
+      length: options?.length ?? 'short',
+      format: 'plain-text',
+      outputLanguage: options?.locale,
+    };
+    if (
+      typeof Writer === 'undefined' ||
+      (await Writer.availability(createOptions)) === 'unavailable'
+    ) {
+      throw taskUnavailable('Writer');
+    }
+
+    const writer = await Writer.create({
+      ...createOptions,
+      sharedContext: fieldContext(options?.field),
+      signal: options?.signal,
+      monitor: downloadMonitor(options?.onProgress),
+    });
+
+    try {
+      const result = await writer.write(prompt, { signal: options?.signal });
+      return result.trim() || null;
+    } finally {
+      writer.destroy();
+    }
+  }
+
+  /**
+   * Uses the Translator API when it supports the language pair, unless a
+   * custom translation template asks for the language model
+   */
+  async translate(text: string, options: AITranslateOptions): Promise<string | null> {
+    if (typeof Translator !== 'undefined' && !options.prompts?.translateTemplate) {
+      const translated = await this.translateWithTranslator(text, options);
+      if (translated !== undefined) return translated;
+    }
+
+    const prompt = translatePrompt(text, options);
+    const { session, release } = await this.openSession(
+      prompt.system,
+      options.signal,
+      options.onProgress
+    );
+
+    let result: string;
+    try {
+      result = await session.prompt(prompt.user, { signal: options.signal });
+    } finally {
+      release();
+    }
+
+    return result.trim() || null;
+  }
+
+  /**
+   * Returns `undefined` when the source language is unknown or the
+   * Translator API cannot translate it on this device
+   */
+  private async translateWithTranslator(
+    text: string,
+    options: AITranslateOptions
+  ): Promise<string | null | undefined> {
+    const sourceLanguage = options.sourceLocale ?? (await this.detectLanguage(text, options.signal));
+    if (!sourceLanguage) return undefined;
+
+    const languages = { sourceLanguage, targetLanguage: options.targetLocale };
+    // Text already in the target language is left as it is
+    if (sourceLanguage.split('-')[0] === options.targetLocale.split('-')[0]) return text;
+    if ((await Translator.availability(languages)) === 'unavailable') return undefined;
+
+    const translator = await Translator.create({
+      ...languages,
+      signal: options.signal,
+      monitor: downloadMonitor(options.onProgress),
+    });
+
+    try {
+      const translated = await translator.translate(text, { signal: options.signal });
+      return translated.trim() || null;
+    } finally {
+      translator.destroy();
+    }
+  }
+
+  /**
+   * The most likely language of `text`, when the LanguageDetector API knows it
+   */
+  private async detectLanguage(text: string, signal?: AbortSignal): Promise<string | undefined> {
+    if (
+      typeof LanguageDetector === 'undefined' ||
+      (await LanguageDetector.availability()) === 'unavailable'
+    ) {
+      return undefined;
+    }
+
+    const detector = await LanguageDetector.create({ signal });
+    try {
+      const [best] = await detector.detect(text, { signal });
+      return best && best.detectedLanguage !== 'und' ? best.detectedLanguage : undefined;
+    } finally {
+      detector.destroy();
     }
   }
 }
@@ -161,103 +572,557 @@ class OpenAIProvider implements AIProviderExecutor {
     };
   }
 
+  private request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const apiUrl = this.config.apiUrl || 'https://api.openai.com/v1/chat/completions';
+    const model = this.config.model || 'gpt-3.5-turbo';
+
+    return fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        ...(this.config.organization && { 'OpenAI-Organization': this.config.organization }),
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal,
+    });
+  }
+
+  /**
+   * `response_format` for JSON replies: JSON mode, a strict JSON schema
+   * generated from the fields, or nothing for models without either
+   */
+  private responseFormat(name: string, schema: Record<string, unknown>): Record<string, unknown> {
+    switch (this.config.responseFormat ?? 'json_object') {
+      case 'json_schema':
+        return {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name, strict: true, schema },
+          },
+        };
+      case 'json_object':
+        return { response_format: { type: 'json_object' } };
+      default:
+        return {};
+    }
+  }
+
   async suggestValue(
     fieldName: string,
     currentValue: string,
-    formContext: Record<string, any>
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
   ): Promise<AIResponse | null> {
-    try {
-      const apiUrl = this.config.apiUrl || 'https://api.openai.com/v1/chat/completions';
-      const model = this.config.model || 'gpt-3.5-turbo';
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          ...(this.config.organization && { 'OpenAI-Organization': this.config.organization }),
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a form completion assistant. Provide only the suggested value, no explanations.',
-            },
-            {
-              role: 'user',
-              content: `Field: ${fieldName}\nCurrent value: ${currentValue}\nContext: ${JSON.stringify(formContext)}\n\nSuggest an improved value:`,
-            },
-          ],
-          temperature: 0.7,
-          max_tokens: 100,
-        }),
-      });
+    const response = await this.request({
+      messages: chatMessages(suggestPrompt(fieldName, currentValue, formContext, options)),
+      temperature: 0.7,
+      max_tokens: 100,
+    }, options?.signal);
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
+    }
+
+    const data = await response.json();
+    const suggestion = data.choices?.[0]?.message?.content?.trim();
+
+    return suggestion ? { suggestion, provider: 'openai' } : null;
+  }
+
+  async suggestValueStream(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await this.request({
+      messages: chatMessages(suggestPrompt(fieldName, currentValue, formContext, options)),
+      temperature: 0.7,
+      max_tokens: 100,
+      stream: true,
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
+    }
+
+    let text = '';
+    for await (const data of readEventStream(response)) {
+      const token = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token, text);
       }
+    }
 
-      const data = await response.json();
-      const suggestion = data.choices?.[0]?.message?.content?.trim();
+    const suggestion = text.trim();
+    return suggestion ? { suggestion, provider: 'openai' } : null;
+  }
 
-      return suggestion ? { suggestion, provider: 'openai' } : null;
-    } catch (err) {
-      console.error('OpenAI error:', err);
-      return null;
+  async autofill(
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null> {
+    const prompt = buildAutofillPrompt(fields, formContext, options?.corrections, options?.prompts);
+
+    const response = await this.request({
+      messages: chatMessages(prompt),
+      temperature: 0.7,
+      ...this.responseFormat(
+        'form_autofill',
+        buildAutofillSchema(fields.map(field => withInstructions(field, options?.prompts)))
+      ),
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
     }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content?.trim();
+
+    // Without structured outputs the reply may be fenced or wrapped in prose
+    return content ? parseJSONObject(content, 'openai') : null;
+  }
+
+  async extract(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null> {
+    const text = await readExtractText(input, 'openai');
+    const prompt = buildExtractPrompt(text, fields, formContext, options?.prompts);
+
+    const response = await this.request({
+      messages: chatMessages(prompt),
+      temperature: 0,
+      ...this.responseFormat(
+        'form_extract',
+        buildExtractSchema(fields.map(field => withInstructions(field, options?.prompts)))
+      ),
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content?.trim();
+    return content ? toExtractData(parseJSONObject(content, 'openai'), fields, text) : null;
+  }
+
+  async summarize(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null> {
+    const response = await this.request({
+      messages: chatMessages(buildSummaryPrompt(values, fields, options, options?.prompts)),
+      temperature: 0.3,
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() || null;
+  }
+
+  async translate(text: string, options: AITranslateOptions): Promise<string | null> {
+    const response = await this.request({
+      messages: chatMessages(translatePrompt(text, options)),
+      temperature: 0.2,
+    }, options.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'openai');
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() || null;
+  }
+}
+
+/**
+ * Anthropic Messages API Provider
+ */
+class AnthropicProvider implements AIProviderExecutor {
+  constructor(private config: Extract<AIProvider, { type: 'anthropic' }>) {}
+
+  async checkAvailability() {
+    return {
+      available: !!this.config.apiKey,
+      status: this.config.apiKey ? 'ready' : 'missing-api-key',
+      needsDownload: false,
+    };
+  }
+
+  private request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const apiUrl = this.config.apiUrl || 'https://api.anthropic.com/v1/messages';
+    const model = this.config.model || 'claude-haiku-4-5';
+
+    return fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': this.config.version || '2023-06-01',
+        // Required for requests made directly from the browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({ model, max_tokens: this.config.maxTokens ?? 1024, ...body }),
+      signal,
+    });
+  }
+
+  private static text(data: any): string {
+    return (data.content ?? [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  private suggestBody(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
+  ) {
+    const prompt = suggestPrompt(fieldName, currentValue, formContext, options);
+    return {
+      system: prompt.system,
+      messages: [{ role: 'user', content: prompt.user }],
+      temperature: 0.7,
+    };
+  }
+
+  async suggestValue(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await this.request(
+      this.suggestBody(fieldName, currentValue, formContext, options),
+      options?.signal
+    );
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    const suggestion = AnthropicProvider.text(await response.json()).trim();
+    return suggestion ? { suggestion, provider: 'anthropic' } : null;
+  }
+
+  async suggestValueStream(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await this.request(
+      { ...this.suggestBody(fieldName, currentValue, formContext, options), stream: true },
+      options?.signal
+    );
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    let text = '';
+    for await (const data of readEventStream(response)) {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onToken(event.delta.text, text);
+      }
+    }
+
+    const suggestion = text.trim();
+    return suggestion ? { suggestion, provider: 'anthropic' } : null;
   }
 
   async autofill(
-    fields: string[],
-    formContext: Record<string, any>
-  ): Promise<AutofillData | null> {
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null> {
+    const prompt = buildAutofillPrompt(fields, formContext, options?.corrections, options?.prompts);
+
+    const response = await this.request({
+      system: prompt.system,
+      messages: [
+        { role: 'user', content: prompt.user },
+        // Prefill the assistant turn so the reply is the JSON object only
+        { role: 'assistant', content: '{' },
+      ],
+      temperature: 0.7,
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    return parseJSONObject(`{${AnthropicProvider.text(await response.json())}`, 'anthropic');
+  }
+
+  async extract(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null> {
+    const text = await readExtractText(input, 'anthropic');
+    const prompt = buildExtractPrompt(text, fields, formContext, options?.prompts);
+
+    const response = await this.request({
+      system: prompt.system,
+      messages: [
+        { role: 'user', content: prompt.user },
+        { role: 'assistant', content: '{' },
+      ],
+      temperature: 0,
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    const raw = parseJSONObject(`{${AnthropicProvider.text(await response.json())}`, 'anthropic');
+    return toExtractData(raw, fields, text);
+  }
+
+  async summarize(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null> {
+    const prompt = buildSummaryPrompt(values, fields, options, options?.prompts);
+
+    const response = await this.request({
+      system: prompt.system,
+      messages: [{ role: 'user', content: prompt.user }],
+      temperature: 0.3,
+    }, options?.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    return AnthropicProvider.text(await response.json()).trim() || null;
+  }
+
+  async translate(text: string, options: AITranslateOptions): Promise<string | null> {
+    const prompt = translatePrompt(text, options);
+
+    const response = await this.request({
+      system: prompt.system,
+      messages: [{ role: 'user', content: prompt.user }],
+      temperature: 0.2,
+    }, options.signal);
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'anthropic');
+    }
+
+    return AnthropicProvider.text(await response.json()).trim() || null;
+  }
+}
+
+/**
+ * Ollama Provider for local and self-hosted models
+ */
+class OllamaProvider implements AIProviderExecutor {
+  constructor(private config: Extract<AIProvider, { type: 'ollama' }>) {}
+
+  private get openAICompatible(): boolean {
+    return this.config.api === 'openai-compatible';
+  }
+
+  private get baseUrl(): string {
+    const url = (this.config.apiUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    // OpenAI-compatible gateways are often configured with their `/v1` base URL
+    return this.openAICompatible ? url.replace(/\/v1$/, '') : url;
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      ...this.config.headers,
+    };
+  }
+
+  /**
+   * Send a chat request in the server's API; `json` constrains the reply to
+   * a valid JSON document
+   */
+  private chat(
+    prompt: AIPrompt,
+    { temperature, json = false, stream = false }: { temperature: number; json?: boolean; stream?: boolean },
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const [path, body] = this.openAICompatible
+      ? ['/v1/chat/completions', { temperature, stream, ...(json && { response_format: { type: 'json_object' } }) }]
+      : ['/api/chat', { options: { temperature }, stream, ...(json && { format: 'json' }) }];
+
+    return fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({ model: this.config.model, messages: chatMessages(prompt), ...body }),
+      signal,
+    });
+  }
+
+  /**
+   * The text of a chat reply, or `undefined` when it is empty
+   */
+  private async reply(response: Response): Promise<string | undefined> {
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'ollama');
+    }
+
+    const data = await response.json();
+    const message = this.openAICompatible ? data.choices?.[0]?.message : data.message;
+    return message?.content?.trim() || undefined;
+  }
+
+  /**
+   * Available when the server responds and lists the configured model
+   */
+  async checkAvailability(options?: AIRequestOptions) {
     try {
-      const apiUrl = this.config.apiUrl || 'https://api.openai.com/v1/chat/completions';
-      const model = this.config.model || 'gpt-3.5-turbo';
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          ...(this.config.organization && { 'OpenAI-Organization': this.config.organization }),
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a form autofill assistant. Return only valid JSON with field values.',
-            },
-            {
-              role: 'user',
-              content: `Generate realistic values for these form fields: ${fields.join(', ')}\nContext: ${JSON.stringify(formContext)}\n\nReturn JSON only:`,
-            },
-          ],
-          temperature: 0.7,
-        }),
+      const response = await fetch(`${this.baseUrl}${this.openAICompatible ? '/v1/models' : '/api/tags'}`, {
+        method: 'GET',
+        headers: this.headers,
+        signal: options?.signal,
       });
-
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+        return { available: false, status: 'unavailable', needsDownload: false };
       }
 
       const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim();
-      
-      if (content) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
-        }
-      }
-      return null;
+      const model = this.config.model;
+      const names: string[] = this.openAICompatible
+        ? (data.data ?? []).map((m: any) => m.id)
+        : (data.models ?? []).flatMap((m: any) => [m.name, m.model]);
+      const hasModel = names.some(
+        name => name === model || (!model.includes(':') && name === `${model}:latest`)
+      );
+
+      return {
+        available: hasModel,
+        status: hasModel ? 'ready' : 'model-not-found',
+        needsDownload: false,
+      };
     } catch (err) {
-      console.error('OpenAI autofill error:', err);
-      return null;
+      if (isAbortError(err)) throw err;
+      return { available: false, status: 'unavailable', needsDownload: false };
     }
   }
+
+  async suggestValue(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await this.chat(
+      suggestPrompt(fieldName, currentValue, formContext, options),
+      { temperature: 0.7 },
+      options?.signal
+    );
+
+    const suggestion = await this.reply(response);
+    return suggestion ? { suggestion, provider: 'ollama' } : null;
+  }
+
+  async suggestValueStream(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await this.chat(
+      suggestPrompt(fieldName, currentValue, formContext, options),
+      { temperature: 0.7, stream: true },
+      options?.signal
+    );
+
+    if (!response.ok) {
+      throw await AIHTTPError.fromResponse(response, 'ollama');
+    }
+
+    // Ollama streams newline-delimited JSON chunks, OpenAI-compatible servers send events
+    let text = '';
+    for await (const data of readEventStream(response)) {
+      const chunk = JSON.parse(data);
+      const token = this.openAICompatible ? chunk.choices?.[0]?.delta?.content : chunk.message?.content;
+      if (token) {
+        text += token;
+        onToken(token, text);
+      }
+    }
+
+    const suggestion = text.trim();
+    return suggestion ? { suggestion, provider: 'ollama' } : null;
+  }
+
+  async autofill(
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null> {
+    const prompt = buildAutofillPrompt(fields, formContext, options?.corrections, options?.prompts);
+
+    const response = await this.chat(prompt, { temperature: 0.7, json: true }, options?.signal);
+
+    const content = await this.reply(response);
+    return content ? parseJSONObject(content, 'ollama') : null;
+  }
+
+  async extract(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null> {
+    const text = await readExtractText(input, 'ollama');
+    const prompt = buildExtractPrompt(text, fields, formContext, options?.prompts);
+
+    const response = await this.chat(prompt, { temperature: 0, json: true }, options?.signal);
+
+    const content = await this.reply(response);
+    return content ? toExtractData(parseJSONObject(content, 'ollama'), fields, text) : null;
+  }
+
+  async summarize(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null> {
+    const response = await this.chat(
+      buildSummaryPrompt(values, fields, options, options?.prompts),
+      { temperature: 0.3 },
+      options?.signal
+    );
+
+    return (await this.reply(response)) ?? null;
+  }
+
+  async translate(text: string, options: AITranslateOptions): Promise<string | null> {
+    const response = await this.chat(translatePrompt(text, options), { temperature: 0.2 }, options.signal);
+
+    return (await this.reply(response)) ?? null;
+  }
 }
 
 /**
@@ -266,18 +1131,47 @@ class OpenAIProvider implements AIProviderExecutor {
 class CustomServerProvider implements AIProviderExecutor {
   constructor(private config: Extract<AIProvider, { type: 'custom' | 'browser' }>) {}
 
-  async checkAvailability() {
+  /**
+   * The server builds its own prompts; the system prompt and locale are
+   * passed along when set
+   */
+  private static promptOverrides(prompts?: AIPromptOptions) {
+    return {
+      ...(prompts?.systemPrompt && { systemPrompt: prompts.systemPrompt }),
+      ...(prompts?.locale && { locale: prompts.locale }),
+    };
+  }
+
+  private suggestBody(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
+  ) {
+    const { instructions } = withInstructions(options?.field ?? { name: fieldName }, options?.prompts);
+    return {
+      fieldName,
+      currentValue,
+      formContext,
+      ...(instructions && { instructions }),
+      ...CustomServerProvider.promptOverrides(options?.prompts),
+    };
+  }
+
+  async checkAvailability(options?: AIRequestOptions) {
     try {
       const response = await fetch(`${this.config.apiUrl}/health`, {
         method: 'GET',
         headers: this.config.headers,
+        signal: options?.signal,
       });
       return {
         available: response.ok,
         status: response.ok ? 'ready' : 'unavailable',
         needsDownload: false,
       };
-    } catch {
+    } catch (err) {
+      if (isAbortError(err)) throw err;
       return { available: false, status: 'unavailable', needsDownload: false };
     }
   }
@@ -285,101 +1179,379 @@ class CustomServerProvider implements AIProviderExecutor {
   async suggestValue(
     fieldName: string,
     currentValue: string,
-    formContext: Record<string, any>
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
   ): Promise<AIResponse | null> {
-    try {
-      const response = await fetch(`${this.config.apiUrl}/api/suggest`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...this.config.headers,
-        },
-        body: JSON.stringify({ fieldName, currentValue, formContext }),
-      });
+    const response = await fetch(`${this.config.apiUrl}/api/suggest`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify(this.suggestBody(fieldName, currentValue, formContext, options)),
+      signal: options?.signal,
+    });
 
-      if (!response.ok) throw new Error(`Server error: ${response.status}`);
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
 
-      const data = await response.json();
-      return data.suggestion ? { suggestion: data.suggestion, provider: 'custom' } : null;
-    } catch (err) {
-      console.error('Custom server error:', err);
-      return null;
+    const data = await response.json();
+    return data.suggestion ? { suggestion: data.suggestion, provider: 'custom' } : null;
+  }
+
+  async suggestValueStream(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null> {
+    const response = await fetch(`${this.config.apiUrl}/api/suggest/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream, application/x-ndjson',
+        ...this.config.headers,
+      },
+      body: JSON.stringify(this.suggestBody(fieldName, currentValue, formContext, options)),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
+
+    let text = '';
+    let suggestion: string | undefined;
+    for await (const data of readEventStream(response)) {
+      const event = JSON.parse(data);
+      if (event.token) {
+        text += event.token;
+        onToken(event.token, text);
+      }
+      if (typeof event.suggestion === 'string') {
+        suggestion = event.suggestion;
+      }
     }
+
+    const result = (suggestion ?? text).trim();
+    return result ? { suggestion: result, provider: 'custom' } : null;
   }
 
   async autofill(
-    fields: string[],
-    formContext: Record<string, any>
-  ): Promise<AutofillData | null> {
-    try {
-      const response = await fetch(`${this.config.apiUrl}/api/autofill`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...this.config.headers,
-        },
-        body: JSON.stringify({ fields, formContext }),
-      });
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null> {
+    const response = await fetch(`${this.config.apiUrl}/api/autofill`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify({
+        fields: fields.map(field => field.name),
+        schema: fields.map(field => withInstructions(field, options?.prompts)),
+        ...CustomServerProvider.promptOverrides(options?.prompts),
+        formContext,
+        ...(options?.corrections?.length && { corrections: options.corrections }),
+      }),
+      signal: options?.signal,
+    });
 
-      if (!response.ok) throw new Error(`Server error: ${response.status}`);
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
 
-      const data = await response.json();
-      return data.autofillData || null;
-    } catch (err) {
-      console.error('Custom server autofill error:', err);
-      return null;
+    const data = await response.json();
+    return data.autofillData || null;
+  }
+
+  /**
+   * Text is sent as JSON; files are uploaded as multipart form data so the
+   * server can read documents such as PDFs itself
+   */
+  async extract(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null> {
+    const request = {
+      fields: fields.map(field => field.name),
+      schema: fields.map(field => withInstructions(field, options?.prompts)),
+      ...CustomServerProvider.promptOverrides(options?.prompts),
+      formContext,
+    };
+
+    let body: BodyInit;
+    let headers: Record<string, string> | undefined = this.config.headers;
+    if (typeof input === 'string') {
+      body = JSON.stringify({ text: input, ...request });
+      headers = { 'Content-Type': 'application/json', ...headers };
+    } else {
+      const formData = new FormData();
+      formData.append('file', input, input.name);
+      for (const [key, value] of Object.entries(request)) {
+        formData.append(key, JSON.stringify(value));
+      }
+      body = formData;
     }
+
+    const response = await fetch(`${this.config.apiUrl}/api/extract`, {
+      method: 'POST',
+      headers,
+      body,
+      signal: options?.signal,
+    });
+
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
+
+    const data = await response.json();
+    return data.extracted
+      ? toExtractData(data.extracted, fields, typeof input === 'string' ? input : undefined)
+      : null;
+  }
+
+  async summarize(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null> {
+    const response = await fetch(`${this.config.apiUrl}/api/summarize`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify({
+        values,
+        schema: fields,
+        style: options?.style ?? 'short',
+        includeDetails: options?.includeDetails ?? false,
+        ...CustomServerProvider.promptOverrides(options?.prompts),
+      }),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
+
+    const data = await response.json();
+    return data.summary || null;
+  }
+
+  async translate(text: string, options: AITranslateOptions): Promise<string | null> {
+    const { instructions } = withInstructions(options.field ?? { name: 'text' }, options.prompts);
+    const response = await fetch(`${this.config.apiUrl}/api/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify({
+        text,
+        targetLocale: options.targetLocale,
+        ...(options.sourceLocale && { sourceLocale: options.sourceLocale }),
+        ...(options.field && { fieldName: options.field.name }),
+        ...(instructions && { instructions }),
+        ...(options.prompts?.systemPrompt && { systemPrompt: options.prompts.systemPrompt }),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, this.config.type);
+
+    const data = await response.json();
+    return data.translated || null;
   }
 }
 
+const providerRegistry = new Map<AIProviderType, AIProviderFactory>();
+
+/**
+ * Register an executor factory for a provider type. Registered factories
+ * take precedence over built-in providers, so they can also replace them
+ * (e.g. with test doubles). Returns a function that unregisters it.
+ */
+export function registerAIProvider(
+  type: AIProviderType,
+  factory: AIProviderFactory
+): () => void {
+  providerRegistry.set(type, factory);
+  return () => {
+    if (providerRegistry.get(type) === factory) {
+      providerRegistry.delete(type);
+    }
+  };
+}
+
+export function unregisterAIProvider(type: AIProviderType): void {
+  providerRegistry.delete(type);
+}
+
 /**
  * Provider Factory
  */
 export function createAIProvider(config: AIProvider): AIProviderExecutor {
-  switch (config.type) {
+  if (config.executor) {
+    return config.executor;
+  }
+
+  const factory = providerRegistry.get(config.type);
+  if (factory) {
+    return factory(config);
+  }
+
+  const builtIn = config as BuiltInAIProvider;
+  switch (builtIn.type) {
     case 'chrome':
-      return new ChromeAIProvider();
+      return new ChromeAIProvider(builtIn);
     case 'openai':
-      return new OpenAIProvider(config);
+      return new OpenAIProvider(builtIn);
+    case 'anthropic':
+      return new AnthropicProvider(builtIn);
+    case 'ollama':
+      return new OllamaProvider(builtIn);
     case 'custom':
     case 'browser':
-      return new CustomServerProvider(config);
+      return new CustomServerProvider(builtIn);
     default:
-      throw new Error(`Unknown provider type: ${(config as any).type}`);
+      throw new Error(`Unknown provider type: ${config.type}`);
   }
 }
 
 /**
- * Execute AI providers in order with fallback
+ * Returned by an executor to pass the request on to the next provider
+ * whatever `fallbackOnError` says, e.g. when the privacy policy keeps it
+ * from this one
+ */
+export const SKIP_PROVIDER: unique symbol = Symbol('skip provider');
+
+export interface AIExecutionContext {
+  /** Signal to pass on to the provider call */
+  signal?: AbortSignal;
+  /** Config of the provider being tried */
+  config: AIProvider;
+}
+
+export interface ExecuteAIProvidersOptions {
+  /** Stops the chain; aborts are never treated as a provider failure */
+  signal?: AbortSignal;
+  /** Defaults for provider configs that do not set their own */
+  resilience?: AIResilienceOptions;
+  logger?: AILogger;
+}
+
+export interface AIExecutionResult<T> {
+  result: T | null;
+  provider: AIProviderType | null;
+  /** The last provider failure when no provider returned a result */
+  error?: AIError;
+  /** Every provider failure, in execution order */
+  errors: AIError[];
+}
+
+/**
+ * Execute AI providers in order with fallback. Provider failures are
+ * normalized to `AIError`s; `fallbackOnError` decides per error whether
+ * the next provider is tried. Each provider call is bounded by its
+ * timeout, retried with backoff and skipped while its circuit is open.
  */
 export async function executeAIProviders<T>(
   providers: AIProvider[],
   executionOrder: AIProviderType[],
-  fallbackOnError: boolean,
-  executor: (provider: AIProviderExecutor) => Promise<T | null>
-): Promise<{ result: T | null; provider: AIProviderType | null }> {
+  fallbackOnError: AIFallbackPolicy,
+  executor: (
+    provider: AIProviderExecutor,
+    context: AIExecutionContext
+  ) => Promise<T | null | typeof SKIP_PROVIDER>,
+  options: ExecuteAIProvidersOptions = {}
+): Promise<AIExecutionResult<T>> {
+  const { signal, logger = createLogger() } = options;
+  const errors: AIError[] = [];
+
   for (const providerType of executionOrder) {
     const config = providers.find(p => p.type === providerType && p.enabled !== false);
     if (!config) continue;
 
-    try {
-      const provider = createAIProvider(config);
-      const result = await executor(provider);
-      
-      if (result !== null) {
-        return { result, provider: providerType };
+    throwIfAborted(signal);
+
+    const resilience = resolveResilience(options.resilience, config);
+    const breaker = resilience.circuitBreaker === false
+      ? null
+      : getCircuitBreaker(config);
+    let error: AIError | undefined;
+    let skipped = false;
+
+    for (let attempt = 0; ; attempt++) {
+      if (breaker && !breaker.tryAcquire()) {
+        error = new AIError(
+          `${providerType} is skipped after repeated failures`,
+          'circuit-open',
+          { provider: providerType }
+        );
+        break;
       }
-      
-      if (!fallbackOnError) {
-        return { result: null, provider: null };
+
+      try {
+        const provider = createAIProvider(config);
+        const result = await withTimeout(
+          callSignal => executor(provider, { signal: callSignal, config }),
+          resilience.timeoutMs,
+          signal,
+          providerType
+        );
+        throwIfAborted(signal);
+
+        if (result === SKIP_PROVIDER) {
+          // Nothing was sent, so there is no verdict on the provider's health
+          breaker?.release();
+          skipped = true;
+          error = undefined;
+          break;
+        }
+        breaker?.recordSuccess();
+
+        if (result !== null) {
+          return { result, provider: providerType, errors };
+        }
+        error = undefined;
+        break;
+      } catch (err) {
+        if (isAbortError(err)) {
+          breaker?.release();
+          throw err;
+        }
+        error = toAIError(err, providerType);
+        breaker?.recordFailure(error, resilience.circuitBreaker || undefined);
       }
-    } catch (err) {
-      console.error(`Provider ${providerType} failed:`, err);
-      if (!fallbackOnError) {
-        return { result: null, provider: null };
+
+      const delay = error.retryable && attempt < (resilience.retries ?? 0)
+        ? getRetryDelay(attempt, error, resilience)
+        : null;
+      if (delay === null) break;
+
+      logger.warn('provider.retry', `Provider ${providerType} failed (${error.code}), retrying in ${Math.round(delay)}ms`, {
+        provider: providerType,
+        error,
+        data: { attempt: attempt + 1, delayMs: Math.round(delay) },
+      });
+      await sleep(delay, signal);
+    }
+
+    if (!error) {
+      if (fallbackOnError === false && !skipped) {
+        return { result: null, provider: null, errors };
       }
+      continue;
     }
+
+    logger.warn('provider.failed', `Provider ${providerType} failed (${error.code})`, {
+      provider: providerType,
+      error,
+    });
+    errors.push(error);
+
+    const fallback = typeof fallbackOnError === 'function'
+      ? fallbackOnError(error)
+      : fallbackOnError;
+    if (!fallback) break;
   }
 
-  return { result: null, provider: null };
+  return { result: null, provider: null, error: errors[errors.length - 1], errors };
 }
@@ -0,0 +1,28 @@
+import { AIError, toAIError } from './errors';
+
+describe('toAIError', () => {
+  it.each([
+    'Failed to fetch',
+    'NetworkError when attempting to fetch resource.',
+    'Load failed',
+    'fetch failed',
+  ])('treats the fetch failure "%s" as a retryable network error', message => {
+    expect(toAIError(new TypeError(message), 'openai')).toMatchObject({
+      code: 'network',
+      retryable: true,
+      provider: 'openai',
+    });
+  });
+
+  it('does not retry other TypeErrors', () => {
+    expect(toAIError(new TypeError('undefined is not a function'))).toMatchObject({
+      code: 'unknown',
+      retryable: false,
+    });
+  });
+
+  it('returns AIErrors as they are', () => {
+    const error = new AIError('slow down', 'rate-limit');
+    expect(toAIError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,173 @@
+import type { AIProviderType } from './types';
+
+/**
+ * What went wrong with an AI request
+ * - `auth`: missing or rejected credentials
+ * - `rate-limit`: the provider throttled the request
+ * - `timeout`: the request took too long
+ * - `network`: the provider could not be reached
+ * - `server`: the provider failed with a 5xx status
+ * - `invalid-request`: the provider rejected the request (other 4xx)
+ * - `invalid-response`: the provider's response was malformed
+ * - `parse`: the model's output was not the expected JSON
+ * - `unavailable`: the provider cannot run in this environment
+ * - `circuit-open`: the provider was skipped after repeated failures
+ * - `unknown`: anything else
+ */
+export type AIErrorCode =
+  | 'auth'
+  | 'rate-limit'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'invalid-request'
+  | 'invalid-response'
+  | 'parse'
+  | 'unavailable'
+  | 'circuit-open'
+  | 'unknown';
+
+const RETRYABLE_CODES: AIErrorCode[] = ['rate-limit', 'timeout', 'network', 'server'];
+
+export interface AIErrorOptions {
+  provider?: AIProviderType;
+  /** HTTP status of the failed response */
+  status?: number;
+  /** Defaults to whether the code is usually transient */
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error the AI features reject with
+ */
+export class AIError extends Error {
+  readonly code: AIErrorCode;
+  readonly provider?: AIProviderType;
+  readonly status?: number;
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, code: AIErrorCode = 'unknown', options: AIErrorOptions = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.code = code;
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code);
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Thrown when a provider responds with an unsuccessful HTTP status
+ */
+export class AIHTTPError extends AIError {
+  /** The response body, when it could be read */
+  readonly body?: string;
+  /** Delay requested by the `Retry-After` header */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    options: AIErrorOptions & { body?: string; retryAfterMs?: number } = {}
+  ) {
+    super(message, codeForStatus(status), { ...options, status });
+    this.name = 'AIHTTPError';
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  static async fromResponse(response: Response, provider?: AIProviderType): Promise<AIHTTPError> {
+    let body: string | undefined;
+    let detail = response.statusText;
+    try {
+      body = await response.text();
+      const data = JSON.parse(body);
+      detail = data.error?.message ?? data.error ?? data.message ?? detail;
+    } catch {
+      // The body is optional detail; the status alone classifies the error
+    }
+
+    return new AIHTTPError(
+      `${provider ?? 'AI provider'} responded with ${response.status}${detail ? `: ${detail}` : ''}`,
+      response.status,
+      { provider, body, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+    );
+  }
+}
+
+/**
+ * Thrown when a provider's response cannot be parsed into the expected JSON
+ */
+export class AIParseError extends AIError {
+  /** The raw text the provider returned */
+  readonly raw: string;
+
+  constructor(message: string, raw: string, provider?: AIProviderType) {
+    super(message, 'parse', { provider });
+    this.name = 'AIParseError';
+    this.raw = raw;
+  }
+}
+
+/**
+ * `Retry-After` is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function codeForStatus(status: number): AIErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'invalid-request';
+}
+
+// What fetch rejects with in Chrome, Firefox, Safari and Node
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed|fetch failed|network request failed/i;
+
+/**
+ * Normalize anything a provider throws into an `AIError`. Abort errors are
+ * not failures and must be checked with `isAbortError` before calling this.
+ */
+export function toAIError(err: unknown, provider?: AIProviderType): AIError {
+  if (err instanceof AIError) {
+    return err;
+  }
+
+  const name = (err as { name?: string } | null)?.name;
+  const message = err instanceof Error ? err.message : String(err);
+  const options = { provider, cause: err };
+
+  switch (name) {
+    // fetch rejects with a TypeError when the request never got a response;
+    // other TypeErrors are bugs, which retrying would not fix
+    case 'TypeError':
+      return new AIError(message, FETCH_FAILURE.test(message) ? 'network' : 'unknown', options);
+    case 'SyntaxError':
+      return new AIError(message, 'invalid-response', options);
+    case 'TimeoutError':
+      return new AIError(message, 'timeout', options);
+    case 'QuotaExceededError':
+      return new AIError(message, 'rate-limit', { ...options, retryable: false });
+    case 'NotSupportedError':
+    case 'NotAllowedError':
+    case 'ReferenceError':
+      return new AIError(message, 'unavailable', options);
+    default:
+      return new AIError(message, 'unknown', options);
+  }
+}
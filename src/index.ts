@@ -2,12 +2,58 @@
 export { useForm } from './useForm';
 export type {
   UseFormAIReturn,
-  AIFormOptions
+  AIFormOptions,
+  AIRegisterOptions,
+  UseFormAIRegister,
+  AIGenerateRowsOptions,
+  AIFormExtractOptions,
+  AIFormSummaryOptions,
+  AIFormTranslateOptions,
+  AIFormRequestOptions,
+  AIFormRewriteOptions,
+  AIFormWriteOptions,
 } from './useForm';
 
+// AI-aware Controller for custom inputs
+export { AIController, useAIController } from './AIController';
+export type {
+  AIControllerProps,
+  UseAIControllerProps,
+  UseAIControllerReturn,
+} from './AIController';
+
 // Export AI assistant hook for advanced use cases
 export { useAIAssistant } from './utils/useAIAssistant';
 
+// Errors
+export { AIError, AIHTTPError, AIParseError } from './errors';
+export type { AIErrorCode, AIErrorOptions } from './errors';
+
+// Provider registry for custom executors
+export { createAIProvider, registerAIProvider, unregisterAIProvider } from './aiProviders';
+
+// Response cache
+export { clearAICache } from './utils/cache';
+
+// Circuit breaker diagnostics
+export { getCircuitBreakerState, resetCircuitBreakers } from './utils/resilience';
+
+// PII detection for privacy policies
+export { builtInPIIDetectors, maskPII } from './utils/privacy';
+
+// Default prompts, for custom templates to build on
+export {
+  DEFAULT_SYSTEM_PROMPT,
+  defaultSuggestTemplate,
+  defaultAutofillTemplate,
+  defaultExtractTemplate,
+  defaultSummaryTemplate,
+  defaultTranslateTemplate,
+} from './utils/prompts';
+
+// Release pooled Chrome AI sessions
+export { resetChromeSessions } from './utils/chromeSession';
+
 // Export AI Form Provider
 export { AIFormProvider, useAIFormContext, useOptionalAIFormContext } from './AIFormProvider';
 export type { AIFormProviderProps } from './AIFormProvider';
@@ -15,15 +61,80 @@ export type { AIFormProviderProps } from './AIFormProvider';
 // Export AI types
 export type {
   AIProviderType,
+  BuiltInAIProviderType,
   AIProviderConfig,
+  AIResilienceOptions,
+  AICircuitBreakerOptions,
+  AICircuitBreakerState,
+  AICacheOptions,
+  AICacheStorage,
+  AILogLevel,
+  AILogEvent,
+  AILoggerOptions,
+  AILoggerConfig,
+  AIFieldPrivacy,
+  AIPIIDetector,
+  AIPrivacyOptions,
+  AIPromptOptions,
+  AIFieldOptions,
+  AIFieldTrigger,
+  AISuggestOptions,
+  AISuggestTemplate,
+  AIAutofillTemplate,
+  AIExtractTemplate,
+  AISummaryTemplate,
+  AITranslateTemplate,
+  AISuggestPromptInput,
+  AIAutofillPromptInput,
+  AIExtractPromptInput,
+  AISummaryPromptInput,
+  AITranslatePromptInput,
   OpenAIConfig,
+  AnthropicConfig,
+  OllamaConfig,
   CustomServerConfig,
   ChromeAIConfig,
   BrowserAIConfig,
+  PluggableAIConfig,
+  AIRegisteredProviders,
+  RegisteredAIConfig,
+  BuiltInAIProvider,
   AIProvider,
+  AIProviderExecutor,
+  AIProviderFactory,
+  AIRequestOptions,
+  AIAutofillOptions,
+  AIAutofillData,
+  AIExtractInput,
+  AIExtractOptions,
+  AIExtractedField,
+  AIExtractData,
+  AISummarizeOptions,
+  SummaryOptions,
+  SummaryStyle,
+  AIProofreadCorrection,
+  AIProofreadResult,
+  AIProofreadOptions,
+  AIRewriteOptions,
+  AIRewriteTone,
+  AIRewriteLength,
+  AIWriteOptions,
+  AIWriteTone,
+  AIWriteLength,
+  AITranslateOptions,
+  AIAvailability,
+  AICapabilities,
+  AICapabilityStatus,
+  AITokenHandler,
   AIExecutionOrder,
+  AIFallbackPolicy,
   AIFormContextValue,
   AIResponse,
+  AIFieldSuggestion,
+  AIFieldDescriptor,
+  AIFieldValueType,
+  AIFieldOption,
+  AIFieldRules,
 } from './types';
 
 // Re-export everything from react-hook-form for convenience
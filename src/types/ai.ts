@@ -1,16 +1,77 @@
+import type { AIError } from '../errors';
+
 /**
  * AI Provider Types
  */
 
-export type AIProviderType = 'chrome' | 'openai' | 'custom' | 'browser';
+export type BuiltInAIProviderType =
+  | 'chrome'
+  | 'openai'
+  | 'anthropic'
+  | 'ollama'
+  | 'custom'
+  | 'browser';
+
+/** Built-in provider types, or any type registered with `registerAIProvider` */
+export type AIProviderType = BuiltInAIProviderType | (string & {});
+
+export interface AICircuitBreakerOptions {
+  /** Consecutive transient failures that open the breaker (default: 5) */
+  failureThreshold?: number;
+  /** How long an open breaker skips the provider before a trial request (default: 30000) */
+  cooldownMs?: number;
+}
+
+/**
+ * How a provider call is bounded and retried. Set on `AIFormProvider` as
+ * defaults for every provider, or on a provider config to override them.
+ */
+export interface AIResilienceOptions {
+  /** Abort a provider call after this many milliseconds (default: no timeout) */
+  timeoutMs?: number;
+  /** Retries after a retryable failure, before falling back (default: 0) */
+  retries?: number;
+  /** Base delay of the exponential backoff between retries (default: 500) */
+  retryDelayMs?: number;
+  /** Longest delay between retries, including `Retry-After` (default: 10000) */
+  maxRetryDelayMs?: number;
+  /** Skip a provider after repeated failures; `false` disables the breaker */
+  circuitBreaker?: AICircuitBreakerOptions | false;
+}
+
+/**
+ * Where cached responses are kept
+ * - `memory`: until the page is reloaded
+ * - `sessionStorage`: until the tab is closed
+ * - `indexedDB`: until they expire
+ */
+export type AICacheStorage = 'memory' | 'sessionStorage' | 'indexedDB';
+
+export interface AICacheOptions {
+  /** How long a response is reused, in milliseconds (default: 300000) */
+  ttlMs?: number;
+  /** Most responses kept; the least recently used are dropped first (default: 100) */
+  maxEntries?: number;
+  /** Default: `memory` */
+  storage?: AICacheStorage;
+}
 
-export interface AIProviderConfig {
+export interface AIProviderConfig extends AIResilienceOptions {
   type: AIProviderType;
   enabled?: boolean;
   apiKey?: string;
   apiUrl?: string;
   model?: string;
   priority?: number;
+  /**
+   * Whether the provider runs on the user's device, so `local-only` fields
+   * and detected PII may be sent to it (default: true for `chrome` only)
+   */
+  onDevice?: boolean;
+  /** Executor to use instead of the built-in or registered one for this type */
+  executor?: AIProviderExecutor;
+  /** Set `false` to never cache this provider's responses */
+  cache?: boolean;
 }
 
 export interface OpenAIConfig extends AIProviderConfig {
@@ -19,6 +80,41 @@ export interface OpenAIConfig extends AIProviderConfig {
   apiUrl?: string;
   model?: string;
   organization?: string;
+  /**
+   * How autofill asks for JSON: JSON mode (default), a strict schema
+   * generated from the fields for models with structured outputs, or a plain
+   * prompt for models supporting neither
+   */
+  responseFormat?: 'json_schema' | 'json_object' | 'text';
+}
+
+export interface AnthropicConfig extends AIProviderConfig {
+  type: 'anthropic';
+  apiKey: string;
+  /** Messages API endpoint (default: https://api.anthropic.com/v1/messages) */
+  apiUrl?: string;
+  model?: string;
+  /** Max tokens per response (default: 1024) */
+  maxTokens?: number;
+  /** Value of the `anthropic-version` header (default: 2023-06-01) */
+  version?: string;
+}
+
+export interface OllamaConfig extends AIProviderConfig {
+  type: 'ollama';
+  /** Model to use; must be pulled on the server, e.g. "llama3.2" */
+  model: string;
+  /** Server URL (default: http://localhost:11434) */
+  apiUrl?: string;
+  /** Optional bearer token for gateways in front of the server */
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /**
+   * `openai-compatible` uses `/v1/models` and `/v1/chat/completions`, as
+   * served by Ollama, vLLM, LM Studio and other gateways, instead of
+   * Ollama's own API (default: `ollama`)
+   */
+  api?: 'ollama' | 'openai-compatible';
 }
 
 export interface CustomServerConfig extends AIProviderConfig {
@@ -29,6 +125,12 @@ export interface CustomServerConfig extends AIProviderConfig {
 
 export interface ChromeAIConfig extends AIProviderConfig {
   type: 'chrome';
+  /** Clone requests from a warm, pooled session instead of creating one each time (default: true) */
+  sessionReuse?: boolean;
+  /** Sampling temperature, clamped to `LanguageModel.params().maxTemperature` */
+  temperature?: number;
+  /** Top-K sampling, clamped to `LanguageModel.params().maxTopK` */
+  topK?: number;
 }
 
 export interface BrowserAIConfig extends AIProviderConfig {
@@ -37,20 +139,103 @@ export interface BrowserAIConfig extends AIProviderConfig {
   headers?: Record<string, string>;
 }
 
-export type AIProvider = OpenAIConfig | CustomServerConfig | ChromeAIConfig | BrowserAIConfig;
+/**
+ * Config for a provider that supplies its own `executor`, of any type
+ */
+export interface PluggableAIConfig extends AIProviderConfig {
+  executor: AIProviderExecutor;
+}
+
+/**
+ * Options of the provider types registered with `registerAIProvider`, by
+ * type. Declare a type here so configs for it type-check:
+ *
+ * ```ts
+ * declare module 'react-hook-form-ai' {
+ *   interface AIRegisteredProviders {
+ *     'in-house': { endpoint?: string };
+ *   }
+ * }
+ * ```
+ */
+export interface AIRegisteredProviders {}
+
+/** Config for a provider type declared in `AIRegisteredProviders` */
+export type RegisteredAIConfig = {
+  [TType in keyof AIRegisteredProviders]: AIProviderConfig &
+    AIRegisteredProviders[TType] & { type: TType };
+}[keyof AIRegisteredProviders];
+
+export type BuiltInAIProvider =
+  | OpenAIConfig
+  | AnthropicConfig
+  | OllamaConfig
+  | CustomServerConfig
+  | ChromeAIConfig
+  | BrowserAIConfig;
+
+export type AIProvider = BuiltInAIProvider | RegisteredAIConfig | PluggableAIConfig;
+
+/**
+ * What a field's value may be sent to providers as
+ * - `allow`: as is, with detected PII masked for remote providers when it is context
+ *   for another field
+ * - `masked`: with detected PII masked, or fully redacted, for every provider; requests
+ *   about the field itself are skipped
+ * - `local-only`: as is to on-device providers, never to remote ones
+ * - `never`: not at all
+ */
+export type AIFieldPrivacy = 'allow' | 'masked' | 'local-only' | 'never';
+
+export interface AIPIIDetector {
+  name: string;
+  /** Matches candidates; must have the global flag */
+  pattern: RegExp;
+  /** Reject false positives, e.g. with a checksum */
+  validate?: (match: string) => boolean;
+  /** Replacement for a match (default: `[name]`) */
+  mask?: (match: string) => string;
+}
+
+export interface AIPrivacyOptions {
+  /** Policy per field name or dotted path; nested fields inherit their parent's */
+  fields?: Record<string, AIFieldPrivacy>;
+  /**
+   * Mask detected PII in the context sent to remote providers, and keep a
+   * field's own value with detected PII from them (default: true)
+   */
+  detectPII?: boolean;
+  /** Detectors to use instead of the built-in email, card, phone and IBAN ones */
+  detectors?: AIPIIDetector[];
+}
+
+/**
+ * Whether to try the next provider after one fails: always, never, or
+ * decided per error (e.g. `error => error.retryable`)
+ */
+export type AIFallbackPolicy = boolean | ((error: AIError) => boolean);
 
 export interface AIExecutionOrder {
   providers: AIProviderType[];
-  fallbackOnError?: boolean;
+  fallbackOnError?: AIFallbackPolicy;
 }
 
 export interface AIFormContextValue {
   providers: AIProvider[];
   executionOrder: AIProviderType[];
-  fallbackOnError: boolean;
+  fallbackOnError: AIFallbackPolicy;
+  /** Defaults for provider timeouts, retries and circuit breakers */
+  resilience?: AIResilienceOptions;
+  logger?: AILoggerConfig;
+  privacy?: AIPrivacyOptions;
+  prompts?: AIPromptOptions;
+  /** BCP 47 language tag for generated text */
+  locale?: string;
+  cache?: boolean | AICacheOptions;
   enabled: boolean;
   debounceMs: number;
   excludeFields: string[];
+  contextFields?: string[];
 }
 
 export interface AIResponse {
@@ -58,3 +243,411 @@ export interface AIResponse {
   provider: AIProviderType;
   confidence?: number;
 }
+
+export type AIFieldValueType = 'string' | 'number' | 'boolean' | 'date' | 'array';
+
+export interface AIFieldOption {
+  value: string;
+  label?: string;
+}
+
+export interface AIFieldRules {
+  required?: boolean;
+  min?: number | string;
+  max?: number | string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/**
+ * Describes a form field to the AI so generated values match
+ * its type, options and validation rules
+ */
+export interface AIFieldDescriptor {
+  name: string;
+  /** JS type the form expects for this field's value */
+  valueType?: AIFieldValueType;
+  /** HTML input type, e.g. "email", "date", "checkbox", "select" */
+  inputType?: string;
+  label?: string;
+  description?: string;
+  options?: AIFieldOption[];
+  rules?: AIFieldRules;
+  /** Extra instructions for generating this field's value */
+  instructions?: string;
+}
+
+/**
+ * A previously generated value that failed validation, sent back
+ * to the provider so it can be repaired
+ */
+export interface AIAutofillCorrection {
+  name: string;
+  value: unknown;
+  message: string;
+}
+
+export interface AIFieldSuggestion {
+  value: string;
+  provider: AIProviderType | null;
+  timestamp: number;
+  /** The corrections that make up a proofread suggestion */
+  corrections?: AIProofreadCorrection[];
+}
+
+/**
+ * Called for every streamed chunk with the chunk and the text so far
+ */
+export type AITokenHandler = (token: string, text: string) => void;
+
+export interface AISuggestPromptInput {
+  field: AIFieldDescriptor;
+  currentValue: string;
+  formContext: Record<string, any>;
+}
+
+export interface AIAutofillPromptInput {
+  fields: AIFieldDescriptor[];
+  formContext: Record<string, any>;
+  corrections: AIAutofillCorrection[];
+}
+
+export interface AIExtractPromptInput {
+  /** The unstructured input, e.g. an email, résumé or invoice */
+  text: string;
+  fields: AIFieldDescriptor[];
+  formContext: Record<string, any>;
+}
+
+export interface AISummaryPromptInput extends Required<SummaryOptions> {
+  /** The form values to summarize */
+  values: Record<string, any>;
+  fields: AIFieldDescriptor[];
+}
+
+export interface AITranslatePromptInput {
+  text: string;
+  /** The field the text was entered in */
+  field: AIFieldDescriptor;
+  /** BCP 47 language tag to translate into, e.g. `de` or `pt-BR` */
+  targetLocale: string;
+  /** The text's language, when known */
+  sourceLocale?: string;
+}
+
+/** Builds the user prompt for a suggestion */
+export type AISuggestTemplate = (input: AISuggestPromptInput) => string;
+
+/** Builds the user prompt for an autofill */
+export type AIAutofillTemplate = (input: AIAutofillPromptInput) => string;
+
+/** Builds the user prompt for an extraction */
+export type AIExtractTemplate = (input: AIExtractPromptInput) => string;
+
+/** Builds the user prompt for a summary */
+export type AISummaryTemplate = (input: AISummaryPromptInput) => string;
+
+/** Builds the user prompt for a translation */
+export type AITranslateTemplate = (input: AITranslatePromptInput) => string;
+
+export interface AIPromptOptions {
+  /** Replaces the default system prompt, e.g. to set tone, language or domain */
+  systemPrompt?: string;
+  /** Extra instructions per field name */
+  fieldInstructions?: Record<string, string>;
+  /** Replaces the default suggestion prompt */
+  suggestTemplate?: AISuggestTemplate;
+  /** Replaces the default autofill prompt */
+  autofillTemplate?: AIAutofillTemplate;
+  /** Replaces the default extraction prompt */
+  extractTemplate?: AIExtractTemplate;
+  /** Replaces the default summary prompt */
+  summaryTemplate?: AISummaryTemplate;
+  /** Replaces the default translation prompt */
+  translateTemplate?: AITranslateTemplate;
+  /**
+   * BCP 47 language tag for generated text, e.g. `de` or `pt-BR`. Set
+   * through the `locale` option of `AIFormProvider` or `useForm`.
+   */
+  locale?: string;
+}
+
+/**
+ * When a field fetches suggestions by itself
+ * - `blur`: after the field loses focus
+ * - `change`: while the user types
+ * - `manual`: only through `aiSuggest` and `aiSuggestStream`
+ */
+export type AIFieldTrigger = 'blur' | 'change' | 'manual';
+
+/**
+ * AI settings for a single field, passed as `ai` to `register`
+ */
+export interface AIFieldOptions {
+  /** When to fetch suggestions (default: `blur`) */
+  trigger?: AIFieldTrigger;
+  /** Overrides the form's `debounceMs` for this field */
+  debounceMs?: number;
+  /** Ask only this provider instead of the execution order */
+  provider?: AIProviderType;
+  /** Apply suggestions to the field instead of storing them in `aiSuggestions` */
+  autoApply?: boolean;
+  /** Instructions for this field; takes precedence over `fieldInstructions` */
+  instructions?: string;
+  /** System prompt for suggestions on this field */
+  systemPrompt?: string;
+  /** Suggestion prompt for this field */
+  suggestTemplate?: AISuggestTemplate;
+}
+
+export interface AIRequestOptions {
+  /** Aborts the underlying fetch or prompt */
+  signal?: AbortSignal;
+}
+
+export interface AISuggestOptions extends AIRequestOptions {
+  /** Metadata of the field; defaults to its name only */
+  field?: AIFieldDescriptor;
+  prompts?: AIPromptOptions;
+}
+
+export interface AIAutofillOptions extends AIRequestOptions {
+  onProgress?: (progress: number) => void;
+  /** Values from a previous attempt that failed validation */
+  corrections?: AIAutofillCorrection[];
+  prompts?: AIPromptOptions;
+}
+
+export type AIAutofillData = Record<string, unknown>;
+
+/**
+ * Text to extract form values from, or a file containing it
+ */
+export type AIExtractInput = string | File;
+
+export interface AIExtractOptions extends AIRequestOptions {
+  onProgress?: (progress: number) => void;
+  prompts?: AIPromptOptions;
+}
+
+/**
+ * A value found in the extraction input
+ */
+export interface AIExtractedField {
+  value: unknown;
+  /** How sure the model is, from 0 to 1 */
+  confidence?: number;
+  /** The passage of the input the value was taken from */
+  source?: string;
+  /** Character offsets of `source` in the input text, when it was found there */
+  span?: { start: number; end: number };
+}
+
+/** Extracted fields by name; fields not found in the input are absent */
+export type AIExtractData = Record<string, AIExtractedField>;
+
+/**
+ * How a summary is written
+ * - `bullet`: a list of key points
+ * - `short`: one or two sentences
+ * - `long`: one or two paragraphs
+ */
+export type SummaryStyle = 'bullet' | 'short' | 'long';
+
+export interface SummaryOptions {
+  /** Default: `short` */
+  style?: SummaryStyle;
+  /** Mention every filled-in field instead of only the most important ones */
+  includeDetails?: boolean;
+}
+
+export interface AISummarizeOptions extends AIRequestOptions, SummaryOptions {
+  onProgress?: (progress: number) => void;
+  prompts?: AIPromptOptions;
+}
+
+/**
+ * A text correction a proofreader found, as character offsets in the input
+ */
+export interface AIProofreadCorrection {
+  start: number;
+  end: number;
+  /** The replacement for the input between `start` and `end` */
+  correction: string;
+  /** E.g. `spelling`, `punctuation` or `grammar`, when the provider reports them */
+  types?: string[];
+  explanation?: string;
+}
+
+export interface AIProofreadResult {
+  /** The input with every correction applied */
+  corrected: string;
+  corrections: AIProofreadCorrection[];
+}
+
+export interface AIProofreadOptions extends AIRequestOptions {
+  onProgress?: (progress: number) => void;
+  /** The field the text belongs to */
+  field?: AIFieldDescriptor;
+}
+
+export type AIRewriteTone = 'more-formal' | 'as-is' | 'more-casual';
+export type AIRewriteLength = 'shorter' | 'as-is' | 'longer';
+
+export interface AIRewriteOptions extends AIRequestOptions {
+  /** Default: `as-is` */
+  tone?: AIRewriteTone;
+  /** Default: `as-is` */
+  length?: AIRewriteLength;
+  onProgress?: (progress: number) => void;
+  /** The field the text belongs to */
+  field?: AIFieldDescriptor;
+}
+
+export type AIWriteTone = 'formal' | 'neutral' | 'casual';
+export type AIWriteLength = 'short' | 'medium' | 'long';
+
+export interface AIWriteOptions extends AIRequestOptions {
+  /** Default: `neutral` */
+  tone?: AIWriteTone;
+  /** Default: `short` */
+  length?: AIWriteLength;
+  onProgress?: (progress: number) => void;
+  /** The field the text is written for */
+  field?: AIFieldDescriptor;
+  /** BCP 47 language tag to write in */
+  locale?: string;
+}
+
+export interface AITranslateOptions extends AIRequestOptions {
+  /** BCP 47 language tag to translate into */
+  targetLocale: string;
+  /** The text's language; detected when omitted */
+  sourceLocale?: string;
+  onProgress?: (progress: number) => void;
+  /** The field the text was entered in */
+  field?: AIFieldDescriptor;
+  prompts?: AIPromptOptions;
+}
+
+/**
+ * Availability of a model or task API
+ */
+export type AICapabilityStatus = 'available' | 'downloadable' | 'downloading' | 'unavailable';
+
+export interface AICapabilities {
+  /** General prompts, used for suggestions, autofill and extraction */
+  prompt: AICapabilityStatus;
+  summarizer: AICapabilityStatus;
+  translator: AICapabilityStatus;
+  languageDetector: AICapabilityStatus;
+  proofreader: AICapabilityStatus;
+  rewriter: AICapabilityStatus;
+  writer: AICapabilityStatus;
+}
+
+export interface AIAvailability {
+  available: boolean;
+  status: string;
+  needsDownload: boolean;
+  /** What the provider's browser supports; only reported by Chrome */
+  capabilities?: AICapabilities;
+}
+
+export type AILogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+export interface AILogEvent {
+  level: Exclude<AILogLevel, 'silent'>;
+  /** Stable event name, e.g. `autofill.completed` or `provider.failed` */
+  event: string;
+  message: string;
+  provider?: AIProviderType;
+  field?: string;
+  error?: unknown;
+  /** Extra details; never contains form values */
+  data?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface AILoggerOptions {
+  /** Most verbose level to report (default: `silent` in production, `warn` otherwise) */
+  level?: AILogLevel;
+  /** Receives every reported event (default: the console) */
+  handler?: (event: AILogEvent) => void;
+}
+
+/** A level, or a level with a custom handler */
+export type AILoggerConfig = AILogLevel | AILoggerOptions;
+
+export interface AICircuitBreakerState {
+  /** `open` skips the provider; `half-open` lets a single trial request through */
+  state: 'closed' | 'open' | 'half-open';
+  /** Consecutive transient failures */
+  failures: number;
+  /** When an open breaker moves to `half-open` (epoch ms) */
+  retryAt: number | null;
+}
+
+/**
+ * The operations a provider implements. Return `null` when the provider
+ * has no result so the next provider in the execution order is tried, and
+ * throw on failure — preferably an `AIError`, other errors are normalized.
+ */
+export interface AIProviderExecutor {
+  suggestValue(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null>;
+
+  /** Stream a suggestion token by token; providers without it fall back to `suggestValue` */
+  suggestValueStream?(
+    fieldName: string,
+    currentValue: string,
+    formContext: Record<string, any>,
+    onToken: AITokenHandler,
+    options?: AISuggestOptions
+  ): Promise<AIResponse | null>;
+
+  autofill(
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIAutofillOptions
+  ): Promise<AIAutofillData | null>;
+
+  /**
+   * Extract values for `fields` from unstructured input. Providers without
+   * it, or that cannot read the input, are skipped.
+   */
+  extract?(
+    input: AIExtractInput,
+    fields: AIFieldDescriptor[],
+    formContext: Record<string, any>,
+    options?: AIExtractOptions
+  ): Promise<AIExtractData | null>;
+
+  /** Summarize form values for a human reader; providers without it are skipped */
+  summarize?(
+    values: Record<string, any>,
+    fields: AIFieldDescriptor[],
+    options?: AISummarizeOptions
+  ): Promise<string | null>;
+
+  /** Correct spelling and grammar only; providers without it are skipped */
+  proofread?(text: string, options?: AIProofreadOptions): Promise<AIProofreadResult | null>;
+
+  /** Rewrite text in another tone or length; providers without it are skipped */
+  rewrite?(text: string, options?: AIRewriteOptions): Promise<string | null>;
+
+  /** Draft text from a short description; providers without it are skipped */
+  write?(prompt: string, options?: AIWriteOptions): Promise<string | null>;
+
+  /** Translate text into another language; providers without it are skipped */
+  translate?(text: string, options: AITranslateOptions): Promise<string | null>;
+
+  checkAvailability(options?: AIRequestOptions): Promise<AIAvailability>;
+}
+
+export type AIProviderFactory = (config: AIProvider) => AIProviderExecutor;
@@ -3,7 +3,8 @@ export {};
 declare global {
   interface LanguageModelConstructor {
     availability(): Promise<'readily' | 'downloadable' | 'downloading' | 'unavailable'>;
-    params(): Promise<{
+    /** Not available in every Chrome version */
+    params?(): Promise<{
       defaultTopK: number;
       maxTopK: number;
       defaultTemperature: number;
@@ -38,4 +39,153 @@ declare global {
   }
 
   const LanguageModel: LanguageModelConstructor;
+
+  /** Availability of Chrome's task APIs; the download may need a user gesture */
+  type BuiltInAIAvailability = 'available' | 'downloadable' | 'downloading' | 'unavailable';
+
+  interface SummarizerCreateOptions {
+    type?: 'key-points' | 'tldr' | 'teaser' | 'headline';
+    format?: 'markdown' | 'plain-text';
+    length?: 'short' | 'medium' | 'long';
+    sharedContext?: string;
+    outputLanguage?: string;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }
+
+  interface SummarizerConstructor {
+    availability(
+      options?: Omit<SummarizerCreateOptions, 'signal' | 'monitor'>
+    ): Promise<BuiltInAIAvailability>;
+    create(options?: SummarizerCreateOptions): Promise<Summarizer>;
+  }
+
+  interface Summarizer {
+    summarize(input: string, options?: { context?: string; signal?: AbortSignal }): Promise<string>;
+    destroy(): void;
+  }
+
+  const Summarizer: SummarizerConstructor;
+
+  interface ProofreaderCreateOptions {
+    expectedInputLanguages?: string[];
+    includeCorrectionTypes?: boolean;
+    includeCorrectionExplanations?: boolean;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }
+
+  interface ProofreaderConstructor {
+    availability(
+      options?: Omit<ProofreaderCreateOptions, 'signal' | 'monitor'>
+    ): Promise<BuiltInAIAvailability>;
+    create(options?: ProofreaderCreateOptions): Promise<Proofreader>;
+  }
+
+  interface ProofreadCorrection {
+    startIndex: number;
+    endIndex: number;
+    correction: string;
+    types?: string[];
+    explanation?: string;
+  }
+
+  interface ProofreadResult {
+    correctedInput: string;
+    corrections: ProofreadCorrection[];
+  }
+
+  interface Proofreader {
+    proofread(input: string, options?: { signal?: AbortSignal }): Promise<ProofreadResult>;
+    destroy(): void;
+  }
+
+  const Proofreader: ProofreaderConstructor;
+
+  interface RewriterCreateOptions {
+    tone?: 'more-formal' | 'as-is' | 'more-casual';
+    format?: 'as-is' | 'markdown' | 'plain-text';
+    length?: 'shorter' | 'as-is' | 'longer';
+    sharedContext?: string;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }
+
+  interface RewriterConstructor {
+    availability(
+      options?: Omit<RewriterCreateOptions, 'signal' | 'monitor'>
+    ): Promise<BuiltInAIAvailability>;
+    create(options?: RewriterCreateOptions): Promise<Rewriter>;
+  }
+
+  interface Rewriter {
+    rewrite(input: string, options?: { context?: string; signal?: AbortSignal }): Promise<string>;
+    destroy(): void;
+  }
+
+  const Rewriter: RewriterConstructor;
+
+  interface WriterCreateOptions {
+    tone?: 'formal' | 'neutral' | 'casual';
+    format?: 'markdown' | 'plain-text';
+    length?: 'short' | 'medium' | 'long';
+    sharedContext?: string;
+    outputLanguage?: string;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }
+
+  interface WriterConstructor {
+    availability(
+      options?: Omit<WriterCreateOptions, 'signal' | 'monitor'>
+    ): Promise<BuiltInAIAvailability>;
+    create(options?: WriterCreateOptions): Promise<Writer>;
+  }
+
+  interface Writer {
+    write(input: string, options?: { context?: string; signal?: AbortSignal }): Promise<string>;
+    destroy(): void;
+  }
+
+  const Writer: WriterConstructor;
+
+  interface TranslatorCreateOptions {
+    sourceLanguage: string;
+    targetLanguage: string;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }
+
+  interface TranslatorConstructor {
+    availability(
+      options: Omit<TranslatorCreateOptions, 'signal' | 'monitor'>
+    ): Promise<BuiltInAIAvailability>;
+    create(options: TranslatorCreateOptions): Promise<Translator>;
+  }
+
+  interface Translator {
+    translate(input: string, options?: { signal?: AbortSignal }): Promise<string>;
+    destroy(): void;
+  }
+
+  const Translator: TranslatorConstructor;
+
+  interface LanguageDetectorConstructor {
+    availability(): Promise<BuiltInAIAvailability>;
+    create(options?: {
+      signal?: AbortSignal;
+      monitor?: (monitor: DownloadMonitor) => void;
+    }): Promise<LanguageDetector>;
+  }
+
+  interface LanguageDetector {
+    /** Candidates, most likely first; `und` when the language is unknown */
+    detect(
+      input: string,
+      options?: { signal?: AbortSignal }
+    ): Promise<Array<{ detectedLanguage: string; confidence: number }>>;
+    destroy(): void;
+  }
+
+  const LanguageDetector: LanguageDetectorConstructor;
 }
@@ -38,4 +38,4 @@ export interface AIAssistantOptions {
   apiUrl?: string;
 }
 
-export type AutofillData = Record<string, string>;
\ No newline at end of file
+export type AutofillData = Record<string, unknown>;
\ No newline at end of file
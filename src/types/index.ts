@@ -7,15 +7,6 @@ export interface AutoFillOptions {
     userInput?: string;
 }
 
-export interface SummaryOptions {
-    includeDetails?: boolean;
-}
-
-export interface AIFormFeatures {
-    enableAutoFill: (options: AutoFillOptions) => void;
-    generateFormSummary: (data: FormData, options?: SummaryOptions) => string;
-}
-
 export * from "./form";
 export * from "./chrome-ai";
 export * from "./ai";
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { createElement } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import { useForm } from './useForm';
+import { clearAICache } from './utils/cache';
+import type { AIFormOptions, UseFormAIReturn } from './useForm';
+import type { AIProviderExecutor, AIResponse } from './types';
+
+interface ProfileForm {
+  name: string;
+  email: string;
+}
+
+const setNativeValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!;
+
+function type(input: HTMLInputElement, text: string) {
+  for (let i = 1; i <= text.length; i++) {
+    act(() => {
+      setNativeValue.call(input, text.slice(0, i));
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+  }
+}
+
+const originalFetch = window.fetch;
+
+let container: HTMLDivElement;
+let renders: number;
+let form: UseFormAIReturn<ProfileForm>;
+
+function renderForm(ai: AIFormOptions) {
+  function ProfileFields() {
+    renders++;
+    form = useForm<ProfileForm>({
+      defaultValues: { name: '', email: '' },
+      ai: { autoCheckAvailability: false, logger: 'silent', ...ai },
+    });
+    return createElement(
+      'form',
+      null,
+      createElement('input', { 'data-testid': 'name', ...form.register('name') }),
+      createElement('input', { 'data-testid': 'email', ...form.register('email') })
+    );
+  }
+
+  act(() => {
+    render(createElement(ProfileFields), container);
+  });
+}
+
+function input(name: keyof ProfileForm): HTMLInputElement {
+  return container.querySelector<HTMLInputElement>(`[data-testid="${name}"]`)!;
+}
+
+beforeEach(() => {
+  renders = 0;
+  container = document.createElement('div');
+  document.body.appendChild(container);
+});
+
+afterEach(() => {
+  unmountComponentAtNode(container);
+  container.remove();
+  window.fetch = originalFetch;
+});
+
+describe('useForm form context', () => {
+  let suggestValue: jest.Mock<Promise<AIResponse | null>>;
+
+  beforeEach(() => {
+    suggestValue = jest.fn(async () => ({ suggestion: 'ada@example.com', provider: 'test' }));
+    const executor: AIProviderExecutor = {
+      suggestValue,
+      autofill: async () => null,
+      checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+    };
+    renderForm({
+      providers: [{ type: 'test', executor, onDevice: true }],
+      executionOrder: ['test'],
+    });
+  });
+
+  it('does not re-render the form while typing', () => {
+    const rendersBeforeTyping = renders;
+
+    type(input('name'), 'Ada Lovelace');
+
+    expect(form.getValues('name')).toBe('Ada Lovelace');
+    expect(renders).toBe(rendersBeforeTyping);
+  });
+
+  it('sends the values typed before a request as context', async () => {
+    type(input('name'), 'Ada');
+
+    await act(async () => {
+      await form.aiSuggest('email');
+    });
+
+    expect(suggestValue).toHaveBeenCalledWith(
+      'email',
+      '',
+      expect.objectContaining({ name: 'Ada' }),
+      expect.anything()
+    );
+  });
+});
+
+describe('useForm suggestions', () => {
+  beforeEach(() => {
+    const executor: AIProviderExecutor = {
+      suggestValue: async () => null,
+      autofill: async () => null,
+      write: async () => 'Ada Lovelace',
+      checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+    };
+    renderForm({
+      providers: [{ type: 'test', executor, onDevice: true }],
+      executionOrder: ['test'],
+    });
+  });
+
+  it('discards a pending suggestion when the field is edited', async () => {
+    await act(async () => {
+      await form.aiWrite('name', 'A famous mathematician');
+    });
+    expect(form.aiSuggestions.name).toMatchObject({ value: 'Ada Lovelace' });
+
+    type(input('name'), 'Grace');
+    act(() => {
+      form.aiAcceptSuggestion('name');
+    });
+
+    expect(form.aiSuggestions.name).toBeUndefined();
+    expect(form.getValues('name')).toBe('Grace');
+  });
+});
+
+describe('useForm loading state', () => {
+  it('stays loading until the last of overlapping operations finishes', async () => {
+    let finishSuggestion: (response: AIResponse) => void = () => undefined;
+    let finishAutofill: (values: Record<string, string>) => void = () => undefined;
+    const executor: AIProviderExecutor = {
+      suggestValue: () => new Promise(resolve => (finishSuggestion = resolve)),
+      autofill: () => new Promise(resolve => (finishAutofill = resolve)),
+      checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+    };
+    renderForm({
+      providers: [{ type: 'test', executor, onDevice: true }],
+      executionOrder: ['test'],
+    });
+
+    let suggestion: Promise<string | null> = Promise.resolve(null);
+    let autofill: Promise<void> = Promise.resolve();
+    await act(async () => {
+      suggestion = form.aiSuggest('name');
+      autofill = form.aiAutofill(['email']);
+    });
+    expect(form.aiLoading).toBe(true);
+
+    await act(async () => {
+      finishAutofill({ email: 'ada@example.com' });
+      await autofill;
+    });
+    expect(form.aiLoading).toBe(true);
+
+    await act(async () => {
+      finishSuggestion({ suggestion: 'Ada', provider: 'test' });
+      await suggestion;
+    });
+    expect(form.aiLoading).toBe(false);
+  });
+});
+
+describe('useForm privacy', () => {
+  const card = '4111 1111 1111 1111';
+
+  it.each([true, false])(
+    'keeps a card number typed into a field from remote providers (fallbackOnError: %p)',
+    async fallbackOnError => {
+      window.fetch = jest.fn(async () => {
+        throw new Error('remote provider called');
+      });
+      const suggestValue = jest.fn(async () => ({ suggestion: card, provider: 'test' }));
+      renderForm({
+        providers: [
+          { type: 'openai', apiKey: 'sk-test' },
+          {
+            type: 'test',
+            executor: {
+              suggestValue,
+              autofill: async () => null,
+              checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+            },
+            onDevice: true,
+          },
+        ],
+        executionOrder: ['openai', 'test'],
+        fallbackOnError,
+      });
+      type(input('name'), card);
+
+      await act(async () => {
+        await expect(form.aiSuggest('name')).resolves.toBe(card);
+      });
+
+      expect(window.fetch).not.toHaveBeenCalled();
+      expect(suggestValue).toHaveBeenCalledWith('name', card, expect.anything(), expect.anything());
+    }
+  );
+});
+
+describe('useForm cache', () => {
+  let suggestValue: jest.Mock<Promise<AIResponse | null>>;
+
+  function renderCachedForm(privacy: AIFormOptions['privacy']) {
+    suggestValue = jest.fn(async () => ({ suggestion: 'ada@example.com', provider: 'test' }));
+    const executor: AIProviderExecutor = {
+      suggestValue,
+      autofill: async () => null,
+      checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+    };
+    renderForm({
+      providers: [{ type: 'test', executor, onDevice: true }],
+      executionOrder: ['test'],
+      cache: { storage: 'sessionStorage' },
+      privacy,
+    });
+  }
+
+  beforeEach(async () => {
+    await clearAICache();
+  });
+
+  it('persists responses and reuses them', async () => {
+    renderCachedForm(undefined);
+    type(input('name'), 'Ada');
+
+    for (let i = 0; i < 2; i++) {
+      await act(async () => {
+        await form.aiSuggest('email');
+      });
+    }
+
+    expect(suggestValue).toHaveBeenCalledTimes(1);
+    expect(sessionStorage.getItem('react-hook-form-ai:cache')).toContain('ada@example.com');
+  });
+
+  it('keeps responses to requests with masked values in memory only', async () => {
+    renderCachedForm({ fields: { name: 'masked' } });
+    type(input('name'), 'Ada');
+
+    for (let i = 0; i < 2; i++) {
+      await act(async () => {
+        await form.aiSuggest('email');
+      });
+    }
+
+    expect(suggestValue).toHaveBeenCalledTimes(1);
+    expect(sessionStorage.getItem('react-hook-form-ai:cache')).toBeNull();
+  });
+
+  it('keeps responses to requests with detected PII in memory only', async () => {
+    renderCachedForm(undefined);
+    type(input('email'), 'ada@example.com');
+
+    for (let i = 0; i < 2; i++) {
+      await act(async () => {
+        await form.aiSuggest('name');
+      });
+    }
+
+    expect(suggestValue).toHaveBeenCalledTimes(1);
+    expect(sessionStorage.getItem('react-hook-form-ai:cache')).toBeNull();
+  });
+});
+
+describe('useForm without providers', () => {
+  const unauthorized = {
+    ok: false,
+    status: 401,
+    statusText: 'Unauthorized',
+    headers: { get: () => null },
+    text: async () => '{"error":"Invalid token"}',
+  };
+
+  beforeEach(() => {
+    window.fetch = jest.fn(async () => unauthorized as unknown as Response);
+    renderForm({ apiUrl: 'https://forms.example.com' });
+  });
+
+  it('rejects autofill with the server error and leaves the form untouched', async () => {
+    await act(async () => {
+      await expect(form.aiAutofill()).rejects.toMatchObject({ code: 'auth', status: 401 });
+    });
+
+    expect(form.getValues()).toEqual({ name: '', email: '' });
+    expect(form.aiError).toMatchObject({ code: 'auth', provider: 'custom' });
+  });
+
+  it('rejects suggestions with the server error', async () => {
+    await act(async () => {
+      await expect(form.aiSuggest('email')).rejects.toMatchObject({ code: 'auth' });
+    });
+  });
+});
@@ -5,11 +5,53 @@ import {
   Path,
   UseFormReturn,
   UseFormRegisterReturn,
+  RegisterOptions,
+  FieldArray,
+  FieldArrayPath,
+  UseFieldArrayAppend,
+  set,
 } from "react-hook-form";
 import { useAIAssistant } from "./utils/useAIAssistant";
 import { useOptionalAIFormContext } from "./AIFormProvider";
 import { useCallback, useRef, useState, useEffect, useMemo } from "react";
-import type { AIProvider, AIProviderType } from "./types";
+import type {
+  AICacheOptions,
+  AIExtractData,
+  AIExtractInput,
+  AIFallbackPolicy,
+  AIFieldDescriptor,
+  AIFieldOptions,
+  AIFieldSuggestion,
+  AILoggerConfig,
+  AIPrivacyOptions,
+  AIAvailability,
+  AIPromptOptions,
+  AIProofreadResult,
+  AIProvider,
+  AIProviderType,
+  AIRewriteOptions,
+  AITokenHandler,
+  AIWriteOptions,
+  SummaryOptions,
+} from "./types";
+import {
+  coerceFieldValue,
+  describeElement,
+  describeRules,
+  flattenFieldValues,
+  isFieldExcluded,
+  listFieldPaths,
+  inferValueType,
+  mergeFieldDescriptors,
+  pickFieldValues,
+  toFieldDescriptor,
+} from "./utils/fieldSchema";
+import { isAbortError, throwIfAborted } from "./utils/abort";
+import { AIError, toAIError } from "./errors";
+import { createLogger } from "./utils/logger";
+import { getAIFormBridge } from "./utils/formBridge";
+import { findResolverErrors } from "./utils/validation";
+import { useStableFunctions } from "./utils/useStableFunctions";
 
 /**
  * AI configuration options for the form
@@ -23,6 +65,11 @@ export interface AIFormOptions {
   debounceMs?: number;
   /** Fields to exclude from AI processing */
   excludeFields?: string[];
+  /**
+   * Fields whose values are sent as context with each request, e.g.
+   * `['company', 'address']` (default: all). Nested paths include their children.
+   */
+  contextFields?: string[];
   /** Auto-check availability on mount */
   autoCheckAvailability?: boolean;
   /** Override providers from AIFormProvider */
@@ -30,33 +77,163 @@ export interface AIFormOptions {
   /** Override execution order from AIFormProvider */
   executionOrder?: AIProviderType[];
   /** Override fallback behavior from AIFormProvider */
-  fallbackOnError?: boolean;
+  fallbackOnError?: AIFallbackPolicy;
+  /** Max attempts to repair autofilled values that fail the form's resolver (default: 2) */
+  repairAttempts?: number;
+  /** Override logging from AIFormProvider (default: silent in production, warnings otherwise) */
+  logger?: AILoggerConfig;
+  /** Override what form values may be sent to which providers */
+  privacy?: AIPrivacyOptions;
+  /** Prompt overrides for this form, layered over the ones from AIFormProvider */
+  prompts?: AIPromptOptions;
+  /** Override the locale from AIFormProvider, e.g. `de` */
+  locale?: string;
+  /** Override response caching from AIFormProvider */
+  cache?: boolean | AICacheOptions;
+}
+
+export interface AIFormRequestOptions {
+  /** Set `false` to skip cached responses; the fresh response is cached (default: `true`) */
+  cache?: boolean;
+}
+
+/**
+ * `register` options with per-field AI settings
+ */
+export type AIRegisterOptions<
+  T extends FieldValues,
+  TFieldName extends Path<T> = Path<T>
+> = RegisterOptions<T, TFieldName> & {
+  ai?: AIFieldOptions;
+};
+
+export type UseFormAIRegister<T extends FieldValues> = <TFieldName extends Path<T>>(
+  name: TFieldName,
+  options?: AIRegisterOptions<T, TFieldName>
+) => UseFormRegisterReturn<TFieldName>;
+
+export interface AIFormExtractOptions {
+  /** Set the extracted values on the form (default: `true`) */
+  apply?: boolean;
+  /** Leave values with a lower confidence (0 to 1) unapplied (default: `0`) */
+  minConfidence?: number;
+}
+
+export interface AIFormSummaryOptions<T extends FieldValues> extends SummaryOptions {
+  /** Fields to summarize (default: the whole form) */
+  fields?: Path<T>[];
+}
+
+export interface AIFormTranslateOptions {
+  /** Set the translations on the form (default: `true`) */
+  apply?: boolean;
+  /** The language of the entered text; detected when omitted */
+  sourceLocale?: string;
+}
+
+export type AIFormRewriteOptions = Pick<AIRewriteOptions, 'tone' | 'length'>;
+
+export type AIFormWriteOptions = Pick<AIWriteOptions, 'tone' | 'length'>;
+
+export interface AIGenerateRowsOptions<
+  T extends FieldValues,
+  TName extends FieldArrayPath<T> = FieldArrayPath<T>
+> {
+  /** Number of rows to generate */
+  count: number;
+  /** `append` from `useFieldArray`; defaults to `setValue` on the whole array */
+  append?: UseFieldArrayAppend<T, TName>;
+  /** Fields of a row, relative to it; defaults to the fields of the existing rows */
+  fields?: Array<string | AIFieldDescriptor>;
 }
 
 /**
  * Extended return type with AI capabilities
  */
 export interface UseFormAIReturn<T extends FieldValues> extends UseFormReturn<T> {
+  /** `register` that also accepts per-field AI settings under `ai` */
+  register: UseFormAIRegister<T>;
   /** AI feature enabled state */
   aiEnabled: boolean;
-  /** Trigger AI autofill for all or specific fields */
-  aiAutofill: (fields?: Path<T>[]) => Promise<void>;
-  /** Get AI suggestion for a specific field */
-  aiSuggest: (fieldName: Path<T>) => Promise<string | null>;
+  /** Trigger AI autofill for all or specific fields; rejects with an `AIError` on failure */
+  aiAutofill: (fields?: Path<T>[], options?: AIFormRequestOptions) => Promise<void>;
+  /**
+   * Extract values for all or specific fields from text or a text file and
+   * apply them; rejects with an `AIError` on failure
+   */
+  aiExtract: (
+    input: AIExtractInput,
+    fields?: Path<T>[],
+    options?: AIFormExtractOptions
+  ) => Promise<AIExtractData>;
+  /**
+   * Translate the free-text values of all or specific fields and apply
+   * them; rejects with an `AIError` on failure
+   */
+  aiTranslate: (
+    fields: Path<T>[] | undefined,
+    targetLocale: string,
+    options?: AIFormTranslateOptions
+  ) => Promise<Partial<Record<Path<T>, string>>>;
+  /** Summarize the form's values; rejects with an `AIError` on failure */
+  aiSummarize: (options?: AIFormSummaryOptions<T>) => Promise<string | null>;
+  /** Generate and append rows to a field array; rejects with an `AIError` on failure */
+  aiGenerateRows: <TName extends FieldArrayPath<T>>(
+    name: TName,
+    options: AIGenerateRowsOptions<T, TName>
+  ) => Promise<FieldArray<T, TName>[]>;
+  /** Get AI suggestion for a specific field; rejects with an `AIError` on failure */
+  aiSuggest: (fieldName: Path<T>, options?: AIFormRequestOptions) => Promise<string | null>;
+  /** Get AI suggestion for a specific field, reporting tokens as they stream in */
+  aiSuggestStream: (fieldName: Path<T>, onToken?: AITokenHandler) => Promise<string | null>;
+  /**
+   * Fix spelling and grammar in a field, kept as its pending suggestion;
+   * rejects with an `AIError` on failure
+   */
+  aiProofread: (fieldName: Path<T>) => Promise<AIProofreadResult | null>;
+  /**
+   * Rewrite a field in another tone or length, kept as its pending suggestion;
+   * rejects with an `AIError` on failure
+   */
+  aiRewrite: (fieldName: Path<T>, options?: AIFormRewriteOptions) => Promise<string | null>;
+  /**
+   * Draft a field's text from a short description, kept as its pending
+   * suggestion; rejects with an `AIError` on failure
+   */
+  aiWrite: (fieldName: Path<T>, prompt: string, options?: AIFormWriteOptions) => Promise<string | null>;
   /** Check if AI is currently processing */
   aiLoading: boolean;
+  /** The last AI request failure, cleared when the next request starts */
+  aiError: AIError | null;
   /** AI availability status */
-  aiAvailability: {
-    available: boolean;
-    status: string;
-    needsDownload: boolean;
-  } | null;
+  aiAvailability: AIAvailability | null;
   /** Refresh AI availability check */
   refreshAvailability: () => Promise<void>;
   /** Download progress (0-100) when model is downloading */
   aiDownloadProgress: number | null;
+  /** Pending suggestions fetched on blur, keyed by field name */
+  aiSuggestions: Partial<Record<Path<T>, AIFieldSuggestion>>;
+  /** Apply the pending suggestion for a field and clear it */
+  aiAcceptSuggestion: (fieldName: Path<T>) => void;
+  /** Discard the pending suggestion for a field */
+  aiRejectSuggestion: (fieldName: Path<T>) => void;
+  /** Discard all pending suggestions */
+  aiClearSuggestions: () => void;
+  /** Abort in-flight AI requests for a field, or all requests when omitted */
+  aiCancel: (fieldName?: Path<T>) => void;
 }
 
+// Request keys for operations that are not tied to a single field
+const AUTOFILL_REQUEST = '__autofill__';
+const AVAILABILITY_REQUEST = '__availability__';
+const EXTRACT_REQUEST = '__extract__';
+const SUMMARY_REQUEST = '__summary__';
+const TRANSLATE_REQUEST = '__translate__';
+
+// Values of these inputs are the same in every language
+const UNTRANSLATED_INPUT_TYPES = ['email', 'url', 'tel', 'password', 'number', 'date', 'time', 'datetime-local', 'color'];
+const ROWS_REQUEST = '__rows__:';
+
 /**
  * Enhanced useForm — wraps react-hook-form with AI autofill + suggestions.
  * Supports Chrome Built-in AI and server API fallback.
@@ -84,6 +261,13 @@ export interface UseFormAIReturn<T extends FieldValues> extends UseFormReturn<T>
  * 
  * // Get specific suggestion
  * const suggestion = await form.aiSuggest('email');
+ *
+ * // Stream a long suggestion as it is generated
+ * await form.aiSuggestStream('bio', (token, text) => setDraft(text));
+ *
+ * // Render and apply suggestions fetched on blur
+ * const pending = form.aiSuggestions.email;
+ * if (pending) form.aiAcceptSuggestion('email');
  * ```
  */
 export function useForm<T extends FieldValues>(
@@ -101,10 +285,17 @@ export function useForm<T extends FieldValues>(
       apiUrl,
       debounceMs: localDebounce,
       excludeFields: localExclude,
+      contextFields: localContextFields,
       autoCheckAvailability = true,
       providers: localProviders,
       executionOrder: localOrder,
       fallbackOnError: localFallback,
+      repairAttempts = 2,
+      logger: localLogger,
+      privacy,
+      prompts,
+      locale,
+      cache,
     } = aiOptions || {};
 
     return {
@@ -112,10 +303,17 @@ export function useForm<T extends FieldValues>(
       apiUrl: apiUrl ?? 'http://localhost:3001',
       debounceMs: localDebounce ?? providerContext?.debounceMs ?? 800,
       excludeFields: localExclude ?? providerContext?.excludeFields ?? [],
+      contextFields: localContextFields ?? providerContext?.contextFields,
       autoCheckAvailability,
       providers: localProviders ?? providerContext?.providers,
       executionOrder: localOrder ?? providerContext?.executionOrder,
       fallbackOnError: localFallback ?? providerContext?.fallbackOnError ?? true,
+      repairAttempts,
+      logger: localLogger ?? providerContext?.logger,
+      privacy,
+      prompts,
+      locale,
+      cache,
     };
   }, [aiOptions, providerContext]);
 
@@ -124,178 +322,594 @@ export function useForm<T extends FieldValues>(
     apiUrl,
     debounceMs,
     excludeFields,
+    contextFields,
     autoCheckAvailability,
     providers,
     executionOrder,
     fallbackOnError,
+    repairAttempts,
+    logger: loggerConfig,
+    privacy,
+    prompts,
+    locale,
+    cache,
   } = mergedConfig;
 
+  // Stable, so inline logger options don't invalidate the callbacks below
+  const logger = useStableFunctions(createLogger(loggerConfig));
+
   const form = useReactHookForm<T>(rhfOptions);
+  // Generated and extracted values are checked against the form's own resolver
+  const { resolver, context: resolverContext, criteriaMode } = rhfOptions;
   const [aiLoading, setAiLoading] = useState(false);
+  const [aiError, setAiError] = useState<AIError | null>(null);
   const [aiDownloadProgress, setAiDownloadProgress] = useState<number | null>(null);
-  const [aiAvailability, setAiAvailability] = useState<{
-    available: boolean;
-    status: string;
-    needsDownload: boolean;
-  } | null>(null);
+  const [aiAvailability, setAiAvailability] = useState<AIAvailability | null>(null);
+  const [aiSuggestions, setAiSuggestions] = useState<
+    Partial<Record<Path<T>, AIFieldSuggestion>>
+  >({});
+  // Read by change handlers, which must not re-render the form on every keystroke
+  const latestSuggestions = useRef(aiSuggestions);
+  latestSuggestions.current = aiSuggestions;
   
+  // Keys of in-flight requests, for per-field loading state
+  const [pendingRequests, setPendingRequests] = useState<Record<string, boolean>>({});
+
   // Track debounce timers
   const debounceTimers = useRef<Map<string, NodeJS.Timeout>>(new Map());
 
-  // Get current form values for context
-  const formValues = form.watch();
+  // Track in-flight requests so stale ones can be aborted
+  const abortControllers = useRef<Map<string, AbortController>>(new Map());
+
+  // Field metadata collected from register rules and the registered elements
+  const fieldMeta = useRef<
+    Map<string, {
+      rules?: Partial<AIFieldDescriptor>;
+      element?: Partial<AIFieldDescriptor>;
+      ai?: AIFieldOptions;
+    }>
+  >(new Map());
+
+  // Read when a request starts; watching the values would re-render the form on every keystroke
+  const getFormContext = useCallback((): Record<string, any> => {
+    const values = form.getValues();
+    return contextFields ? pickFieldValues(values, contextFields) : values;
+  }, [form, contextFields]);
 
   // Initialize AI assistant with form context and overrides
   const ai = useAIAssistant({
     enabled: aiEnabled,
-    formContext: formValues,
+    formContext: getFormContext,
     apiUrl,
     providers,
     executionOrder,
     fallbackOnError,
+    logger: loggerConfig,
+    privacy,
+    prompts,
+    locale,
+    cache,
   });
 
-  // Check availability on mount
+  // Cleanup debounce timers and abort pending requests on unmount or when AI is toggled
   useEffect(() => {
-    if (autoCheckAvailability && aiEnabled) {
-      void refreshAvailability();
-    }
-    
-    // Cleanup debounce timers on unmount
+    const timers = debounceTimers.current;
+    const controllers = abortControllers.current;
     return () => {
-      debounceTimers.current.forEach(timer => clearTimeout(timer));
-      debounceTimers.current.clear();
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [aiEnabled, autoCheckAvailability]);
+  }, [aiEnabled]);
+
+  /**
+   * Start a request under `key`, aborting the previous one with the same key
+   */
+  const startRequest = useCallback((key: string): AbortController => {
+    abortControllers.current.get(key)?.abort();
+    const controller = new AbortController();
+    abortControllers.current.set(key, controller);
+    setPendingRequests(prev => (prev[key] ? prev : { ...prev, [key]: true }));
+    return controller;
+  }, []);
+
+  // Operations in flight; `aiLoading` clears when the last one finishes
+  const loadingOperations = useRef(0);
+
+  const startLoading = useCallback(() => {
+    loadingOperations.current++;
+    setAiLoading(true);
+  }, []);
+
+  const finishLoading = useCallback(() => {
+    loadingOperations.current--;
+    if (loadingOperations.current === 0) {
+      setAiLoading(false);
+      setAiDownloadProgress(null);
+    }
+  }, []);
+
+  const finishRequest = useCallback((key: string, controller: AbortController) => {
+    if (abortControllers.current.get(key) === controller) {
+      abortControllers.current.delete(key);
+    }
+    // A request started after this one may still be running
+    if (!abortControllers.current.has(key)) {
+      setPendingRequests(prev => {
+        if (!prev[key]) return prev;
+        const { [key]: _finished, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, []);
+
+  /**
+   * Abort in-flight requests and pending debounced suggestions
+   */
+  const aiCancel = useCallback((fieldName?: Path<T>) => {
+    const keys = fieldName !== undefined
+      ? [String(fieldName)]
+      : [...new Set([...debounceTimers.current.keys(), ...abortControllers.current.keys()])];
+
+    for (const key of keys) {
+      const timer = debounceTimers.current.get(key);
+      if (timer) clearTimeout(timer);
+      debounceTimers.current.delete(key);
+
+      abortControllers.current.get(key)?.abort();
+      abortControllers.current.delete(key);
+    }
+  }, []);
+
+  /**
+   * Discard a pending suggestion without applying it
+   */
+  const aiRejectSuggestion = useCallback((fieldName: Path<T>) => {
+    setAiSuggestions(prev => {
+      const { [fieldName]: _rejected, ...rest } = prev;
+      return rest as typeof prev;
+    });
+  }, []);
 
   /**
    * Refresh AI availability status
    */
   const refreshAvailability = useCallback(async () => {
+    const controller = startRequest(AVAILABILITY_REQUEST);
     try {
-      const status = await ai.checkAvailability();
+      const status = await ai.checkAvailability({ signal: controller.signal });
+      throwIfAborted(controller.signal);
       setAiAvailability(status);
       
+      const data = { status: status.status };
       if (status.needsDownload) {
-        console.log('Chrome AI model requires download. User interaction needed to start download.');
+        logger.info('availability.checked', 'Chrome AI model requires download. User interaction needed to start download.', { data });
       } else if (status.status === 'downloading') {
-        console.log('Chrome AI model is currently downloading...');
+        logger.info('availability.checked', 'Chrome AI model is currently downloading', { data });
       } else if (status.available) {
-        console.log('Chrome AI is ready to use!');
+        logger.info('availability.checked', 'AI is ready to use', { data });
       }
     } catch (err) {
-      console.error('Failed to check AI availability:', err);
+      if (isAbortError(err)) return;
+      logger.error('availability.failed', 'Failed to check AI availability', { error: err });
       setAiAvailability({
         available: false,
         status: 'error',
         needsDownload: false
       });
+    } finally {
+      finishRequest(AVAILABILITY_REQUEST, controller);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [ai, logger, startRequest, finishRequest]);
+
+  // Check availability on mount
+  useEffect(() => {
+    if (autoCheckAvailability && aiEnabled) {
+      void refreshAvailability();
+    }
+  }, [aiEnabled, autoCheckAvailability, refreshAvailability]);
+
+  /**
+   * Describe a field to the AI from its register rules, element and current value
+   */
+  const getFieldDescriptor = useCallback(
+    (name: string): AIFieldDescriptor => {
+      const meta = fieldMeta.current.get(name);
+      return mergeFieldDescriptors(
+        name,
+        { valueType: inferValueType(form.getValues(name as Path<T>)) },
+        meta?.element,
+        meta?.rules,
+        { instructions: meta?.ai?.instructions }
+      );
+    },
+    [form]
+  );
+
+  /**
+   * Field metadata and per-field overrides for a suggestion request
+   */
+  const getSuggestOptions = useCallback(
+    (name: string) => {
+      const fieldOptions = fieldMeta.current.get(name)?.ai;
+      return {
+        field: getFieldDescriptor(name),
+        provider: fieldOptions?.provider,
+        prompts: {
+          systemPrompt: fieldOptions?.systemPrompt,
+          suggestTemplate: fieldOptions?.suggestTemplate,
+        },
+      };
+    },
+    [getFieldDescriptor]
+  );
+
+  /**
+   * Remember a field's rules and AI options for its prompts and suggestions
+   */
+  const trackField = useCallback(
+    (name: string, rules: Record<string, any> | undefined, fieldOptions: AIFieldOptions | undefined) => {
+      const meta = fieldMeta.current.get(name) ?? {};
+      meta.rules = describeRules(rules);
+      meta.ai = fieldOptions;
+      fieldMeta.current.set(name, meta);
+      return meta;
+    },
+    []
+  );
+
+  /**
+   * Fetch a suggestion for a field's value once the field has been idle
+   * for its debounce time
+   */
+  const scheduleSuggestion = useCallback(
+    (name: string, value: unknown) => {
+      const text = typeof value === 'number' ? String(value) : value;
+
+      // Only suggest if there's a value
+      if (typeof text !== 'string' || text.trim().length === 0) return;
+
+      const fieldOptions = fieldMeta.current.get(name)?.ai;
+      const newTimer = setTimeout(async () => {
+        debounceTimers.current.delete(name);
+        const controller = startRequest(name);
+        setAiError(null);
+        try {
+          const response = await ai.getSuggestion(name, text, {
+            ...getSuggestOptions(name),
+            signal: controller.signal,
+          });
+          throwIfAborted(controller.signal);
+
+          if (!response || response.suggestion === text) return;
+
+          if (fieldOptions?.autoApply) {
+            form.setValue(name as Path<T>, response.suggestion as any, {
+              shouldDirty: true,
+              shouldValidate: true,
+            });
+            logger.debug('suggestion.applied', `Applied AI suggestion for ${name}`, {
+              provider: response.provider,
+              field: name,
+            });
+            return;
+          }
+
+          // Store the suggestion so it can be shown and accepted/rejected
+          setAiSuggestions(prev => ({
+            ...prev,
+            [name]: {
+              value: response.suggestion,
+              provider: response.provider,
+              timestamp: Date.now(),
+            },
+          }));
+        } catch (err) {
+          if (!isAbortError(err)) {
+            const error = toAIError(err);
+            logger.error('suggestion.failed', `Error getting suggestion for ${name}`, {
+              field: name,
+              error,
+            });
+            setAiError(error);
+          }
+        } finally {
+          finishRequest(name, controller);
+        }
+      }, fieldOptions?.debounceMs ?? debounceMs);
+
+      debounceTimers.current.set(name, newTimer);
+    },
+    [form, ai, debounceMs, logger, getSuggestOptions, startRequest, finishRequest]
+  );
 
   /**
-   * Enhanced register that integrates AI suggestions on blur
+   * Enhanced register that fetches AI suggestions on blur or change,
+   * as set by the field's `ai` options
    */
   const registerWithAI = useCallback(
     <TFieldName extends Path<T>>(
       name: TFieldName,
-      rules?: Parameters<UseFormReturn<T>["register"]>[1]
+      options?: AIRegisterOptions<T, TFieldName>
     ): UseFormRegisterReturn<TFieldName> => {
-      const baseRegister = form.register<TFieldName>(name, rules as Parameters<typeof form.register<TFieldName>>[1]);
+      const { ai: fieldOptions, ...rules } = options ?? {};
+      const baseRegister = form.register<TFieldName>(name, rules as RegisterOptions<T, TFieldName>);
 
-      if (!aiEnabled || excludeFields.includes(String(name))) {
+      if (!aiEnabled || isFieldExcluded(String(name), excludeFields)) {
         return baseRegister;
       }
 
+      const meta = trackField(String(name), rules, fieldOptions);
+      const trigger = fieldOptions?.trigger ?? 'blur';
+
       const enhancedRegister: UseFormRegisterReturn<TFieldName> = {
         ...baseRegister,
+        ref: (el: any) => {
+          baseRegister.ref(el);
+          if (el && typeof el.tagName === 'string') {
+            meta.element = describeElement(el, meta.element);
+          }
+        },
+        onChange: async (e: any) => {
+          // A new value makes any pending suggestion for this field stale
+          aiCancel(name);
+          if (latestSuggestions.current[name]) aiRejectSuggestion(name);
+          const result = await baseRegister.onChange(e);
+          if (trigger === 'change') {
+            scheduleSuggestion(String(name), e?.target?.value);
+          }
+          return result;
+        },
         onBlur: async (e: any) => {
           // Call original onBlur first
           await baseRegister.onBlur?.(e);
 
-          // Clear existing timer for this field
-          const timerId = debounceTimers.current.get(String(name));
-          if (timerId) clearTimeout(timerId);
-
-          // Set new debounced timer
-          const newTimer = setTimeout(async () => {
-            const value = e?.target?.value;
-            
-            // Only suggest if there's a value
-            if (value && value.trim().length > 0) {
-              try {
-                const suggestion = await ai.suggestValue(String(name), value);
-                
-                // Optionally auto-apply suggestion or show it to user
-                if (suggestion && suggestion !== value) {
-                  console.log(`💡 Suggestion for "${String(name)}": ${suggestion}`);
-                  // You could add logic here to show the suggestion to the user
-                  // and let them accept/reject it
-                }
-              } catch (err) {
-                console.error(`Error getting suggestion for ${String(name)}:`, err);
-              }
-            }
-          }, debounceMs);
-
-          debounceTimers.current.set(String(name), newTimer);
+          if (trigger === 'blur') {
+            // Clear existing timer and abort the previous request for this field
+            aiCancel(name);
+            scheduleSuggestion(String(name), e?.target?.value);
+          }
         },
       };
 
       return enhancedRegister;
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [form, aiEnabled, excludeFields, debounceMs]
+    [form, aiEnabled, excludeFields, aiCancel, aiRejectSuggestion, trackField, scheduleSuggestion]
+  );
+
+  /**
+   * Ask the providers for values of `descriptors`, coerced to each field's
+   * type. With a resolver, failing values are sent back for repair and
+   * left out when they cannot be repaired.
+   */
+  const generateValues = useCallback(
+    async (
+      descriptors: AIFieldDescriptor[],
+      signal: AbortSignal,
+      requestOptions?: AIFormRequestOptions
+    ): Promise<Record<string, unknown>> => {
+      const onDownloadProgress = (progress: number) => {
+        setAiDownloadProgress(progress);
+      };
+
+      const coerceAutofill = (data: Record<string, unknown>) => {
+        const coerced: Record<string, unknown> = {};
+        // Models may nest `address.city` as `{ address: { city } }`
+        for (const [name, value] of Object.entries(flattenFieldValues(data))) {
+          const descriptor = descriptors.find(d => d.name === name);
+          if (descriptor) {
+            coerced[name] = coerceFieldValue(value, descriptor);
+          }
+        }
+        return coerced;
+      };
+
+      const values = coerceAutofill(
+        await ai.autofill(descriptors, { ...requestOptions, onDownloadProgress, signal })
+      );
+
+      // Validate against the form's resolver and ask the AI to repair failing fields
+      if (resolver) {
+        let corrections = await findResolverErrors(resolver, form.getValues(), values, {
+          context: resolverContext,
+          criteriaMode,
+        });
+
+        for (let attempt = 0; corrections.length > 0 && attempt < repairAttempts; attempt++) {
+          const failing = descriptors.filter(d => corrections.some(c => c.name === d.name));
+          const repaired = coerceAutofill(
+            await ai.autofill(failing, { ...requestOptions, onDownloadProgress, corrections, signal })
+          );
+          for (const correction of corrections) {
+            if (correction.name in repaired) {
+              values[correction.name] = repaired[correction.name];
+            }
+          }
+          corrections = await findResolverErrors(resolver, form.getValues(), values, {
+            context: resolverContext,
+            criteriaMode,
+          });
+        }
+
+        // Leave fields the AI could not repair untouched
+        for (const correction of corrections) {
+          logger.warn('autofill.invalid-value', `Skipping invalid AI value for "${correction.name}": ${correction.message}`, {
+            field: correction.name,
+          });
+          delete values[correction.name];
+        }
+      }
+
+      return values;
+    },
+    [form, ai, resolver, resolverContext, criteriaMode, repairAttempts, logger]
+  );
+
+  /**
+   * The fields to fill for `fields`, or for the whole form. Nested objects
+   * and field array rows are filled field by field.
+   */
+  const resolveTargetFields = useCallback(
+    (fields?: Path<T>[]): string[] => {
+      const targetFields = fields
+        ? fields.reduce<string[]>(
+            (paths, field) => paths.concat(listFieldPaths(form.getValues(field), String(field))),
+            []
+          )
+        : listFieldPaths(form.getValues());
+
+      return targetFields.filter(field => {
+        if (isFieldExcluded(field, excludeFields)) return false;
+        // Empty field arrays have no rows to fill; see aiGenerateRows
+        const value = form.getValues(field as Path<T>);
+        return !(Array.isArray(value) && value.length === 0) || fieldMeta.current.has(field);
+      });
+    },
+    [form, excludeFields]
   );
 
   /**
    * AI-powered autofill for all or specific fields
    */
   const aiAutofill = useCallback(
-    async (fields?: Path<T>[]): Promise<void> => {
+    async (fields?: Path<T>[], requestOptions?: AIFormRequestOptions): Promise<void> => {
       if (!aiEnabled) {
-        console.warn('AI is disabled for this form');
+        logger.warn('autofill.disabled', 'AI is disabled for this form');
         return;
       }
 
       // Check if AI is available
       if (aiAvailability && !aiAvailability.available) {
-        console.warn(`AI is not available. Status: ${aiAvailability.status}`);
+        logger.warn('autofill.unavailable', `AI is not available. Status: ${aiAvailability.status}`, {
+          data: { status: aiAvailability.status },
+        });
         if (aiAvailability.needsDownload) {
-          console.log('Attempting to trigger model download...');
+          logger.info('autofill.download', 'Attempting to trigger model download');
         }
         // Continue anyway to attempt download or use fallback
       }
 
-      setAiLoading(true);
+      startLoading();
       setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(AUTOFILL_REQUEST);
+      const { signal } = controller;
 
       try {
-        // Get all registered field names
-        const currentValues = form.getValues();
-        const targetFields = fields || (Object.keys(currentValues) as Path<T>[]);
-        
-        // Filter out excluded fields
-        const fieldsToFill = targetFields.filter(
-          field => !excludeFields.includes(String(field))
-        );
+        const fieldsToFill = resolveTargetFields(fields);
 
         if (fieldsToFill.length === 0) {
-          console.warn('No fields to autofill');
+          logger.warn('autofill.no-fields', 'No fields to autofill');
           return;
         }
 
-        const autofillData = await ai.autofill(fieldsToFill.map(String), {
-          onDownloadProgress: (progress) => {
-            setAiDownloadProgress(progress);
-          },
-        });
+        const values = await generateValues(
+          fieldsToFill.map(field => getFieldDescriptor(field)),
+          signal,
+          requestOptions
+        );
+
+        // A cancelled autofill must not overwrite newer values
+        throwIfAborted(signal);
+
+        // Apply autofilled values, coerced to each field's expected type
+        for (const [name, value] of Object.entries(values)) {
+          form.setValue(name as Path<T>, value as any, {
+            shouldDirty: true,
+            shouldValidate: true,
+            shouldTouch: true,
+          });
+        }
         
-        // Apply autofilled values
-        for (const [name, value] of Object.entries(autofillData)) {
-          if (fieldsToFill.some(f => String(f) === name)) {
+        logger.info('autofill.completed', 'Autofill completed', {
+          data: { fields: Object.keys(values) },
+        });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        const error = toAIError(err);
+        logger.error('autofill.failed', 'AI autofill failed', { provider: error.provider, error });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(AUTOFILL_REQUEST, controller);
+        finishLoading();
+      }
+    },
+    [form, aiEnabled, aiAvailability, resolveTargetFields, getFieldDescriptor, generateValues, logger, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Extract values for all or specific fields from text or a document
+   */
+  const aiExtract = useCallback(
+    async (
+      input: AIExtractInput,
+      fields?: Path<T>[],
+      { apply = true, minConfidence = 0 }: AIFormExtractOptions = {}
+    ): Promise<AIExtractData> => {
+      if (!aiEnabled) {
+        logger.warn('extract.disabled', 'AI is disabled for this form');
+        return {};
+      }
+
+      startLoading();
+      setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(EXTRACT_REQUEST);
+      const { signal } = controller;
+
+      try {
+        const fieldsToFill = resolveTargetFields(fields);
+
+        if (fieldsToFill.length === 0) {
+          logger.warn('extract.no-fields', 'No fields to extract');
+          return {};
+        }
+
+        const descriptors = fieldsToFill.map(field => getFieldDescriptor(field));
+        const extracted = await ai.extract(input, descriptors, {
+          onDownloadProgress: progress => setAiDownloadProgress(progress),
+          signal,
+        });
+        throwIfAborted(signal);
+
+        for (const [name, field] of Object.entries(extracted)) {
+          const descriptor = descriptors.find(d => d.name === name);
+          if (descriptor) field.value = coerceFieldValue(field.value, descriptor);
+        }
+
+        if (apply) {
+          const values: Record<string, unknown> = {};
+          for (const [name, field] of Object.entries(extracted)) {
+            if (field.confidence !== undefined && field.confidence < minConfidence) {
+              logger.info('extract.low-confidence', `Not applying "${name}" with confidence ${field.confidence}`, {
+                field: name,
+                data: { confidence: field.confidence },
+              });
+              continue;
+            }
+            values[name] = field.value;
+          }
+
+          // Invalid values are left out rather than repaired, which would mean inventing them
+          if (resolver) {
+            const corrections = await findResolverErrors(resolver, form.getValues(), values, {
+              context: resolverContext,
+              criteriaMode,
+            });
+            for (const correction of corrections) {
+              logger.warn('extract.invalid-value', `Skipping invalid extracted value for "${correction.name}": ${correction.message}`, {
+                field: correction.name,
+              });
+              delete values[correction.name];
+            }
+          }
+
+          // A cancelled extraction must not overwrite newer values
+          throwIfAborted(signal);
+
+          for (const [name, value] of Object.entries(values)) {
             form.setValue(name as Path<T>, value as any, {
               shouldDirty: true,
               shouldValidate: true,
@@ -303,60 +917,544 @@ export function useForm<T extends FieldValues>(
             });
           }
         }
-        
-        console.log('✅ Autofill completed successfully');
-      } catch (error) {
-        console.error('AI autofill failed:', error);
+
+        logger.info('extract.completed', 'Extraction completed', {
+          data: { fields: Object.keys(extracted) },
+        });
+        return extracted;
+      } catch (err) {
+        if (isAbortError(err)) return {};
+        const error = toAIError(err);
+        logger.error('extract.failed', 'AI extraction failed', { provider: error.provider, error });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(EXTRACT_REQUEST, controller);
+        finishLoading();
+      }
+    },
+    [form, ai, aiEnabled, resolver, resolverContext, criteriaMode, resolveTargetFields, getFieldDescriptor, logger, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Translate previously entered free-text answers into another language
+   */
+  const aiTranslate = useCallback(
+    async (
+      fields: Path<T>[] | undefined,
+      targetLocale: string,
+      { apply = true, sourceLocale }: AIFormTranslateOptions = {}
+    ): Promise<Partial<Record<Path<T>, string>>> => {
+      if (!aiEnabled) {
+        logger.warn('translate.disabled', 'AI is disabled for this form');
+        return {};
+      }
+
+      startLoading();
+      setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(TRANSLATE_REQUEST);
+      const { signal } = controller;
+
+      try {
+        const translated: Record<string, string> = {};
+
+        for (const name of resolveTargetFields(fields)) {
+          const value = form.getValues(name as Path<T>);
+          const field = getFieldDescriptor(name);
+          // Option values and formatted inputs must keep their exact value
+          if (
+            typeof value !== 'string' ||
+            !value.trim() ||
+            field.options?.length ||
+            UNTRANSLATED_INPUT_TYPES.includes(field.inputType ?? '')
+          ) {
+            continue;
+          }
+
+          const response = await ai.translate(field, value, targetLocale, {
+            sourceLocale,
+            provider: fieldMeta.current.get(name)?.ai?.provider,
+            onDownloadProgress: progress => setAiDownloadProgress(progress),
+            signal,
+          });
+          throwIfAborted(signal);
+
+          if (response && response.suggestion !== value) {
+            translated[name] = response.suggestion;
+          }
+        }
+
+        if (apply) {
+          for (const [name, value] of Object.entries(translated)) {
+            form.setValue(name as Path<T>, value as any, {
+              shouldDirty: true,
+              shouldValidate: true,
+              shouldTouch: true,
+            });
+          }
+        }
+
+        logger.info('translate.completed', `Translated ${Object.keys(translated).length} fields`, {
+          data: { fields: Object.keys(translated), targetLocale },
+        });
+        return translated as Partial<Record<Path<T>, string>>;
+      } catch (err) {
+        if (isAbortError(err)) return {};
+        const error = toAIError(err);
+        logger.error('translate.failed', 'AI translation failed', { provider: error.provider, error });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(TRANSLATE_REQUEST, controller);
+        finishLoading();
+      }
+    },
+    [form, ai, aiEnabled, resolveTargetFields, getFieldDescriptor, logger, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Summarize all or specific fields for a human reader
+   */
+  const aiSummarize = useCallback(
+    async ({ fields, ...summaryOptions }: AIFormSummaryOptions<T> = {}): Promise<string | null> => {
+      if (!aiEnabled) {
+        logger.warn('summary.disabled', 'AI is disabled for this form');
+        return null;
+      }
+
+      startLoading();
+      setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(SUMMARY_REQUEST);
+      const { signal } = controller;
+
+      try {
+        const fieldsToSummarize = resolveTargetFields(fields);
+
+        if (fieldsToSummarize.length === 0) {
+          logger.warn('summary.no-fields', 'No fields to summarize');
+          return null;
+        }
+
+        // Only the summarized fields are sent, excluded fields never are
+        const values: Record<string, unknown> = {};
+        for (const field of fieldsToSummarize) {
+          set(values, field, form.getValues(field as Path<T>));
+        }
+
+        const summary = await ai.summarize(
+          values,
+          fieldsToSummarize.map(field => getFieldDescriptor(field)),
+          {
+            ...summaryOptions,
+            onDownloadProgress: progress => setAiDownloadProgress(progress),
+            signal,
+          }
+        );
+        throwIfAborted(signal);
+
+        logger.info('summary.completed', 'Summary completed', {
+          data: { fields: fieldsToSummarize },
+        });
+        return summary;
+      } catch (err) {
+        if (isAbortError(err)) return null;
+        const error = toAIError(err);
+        logger.error('summary.failed', 'AI summary failed', { provider: error.provider, error });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(SUMMARY_REQUEST, controller);
+        finishLoading();
+      }
+    },
+    [form, ai, aiEnabled, resolveTargetFields, getFieldDescriptor, logger, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Generate new rows for a field array
+   */
+  const aiGenerateRows = useCallback(
+    async <TName extends FieldArrayPath<T>>(
+      name: TName,
+      { count, append, fields }: AIGenerateRowsOptions<T, TName>
+    ): Promise<FieldArray<T, TName>[]> => {
+      if (!aiEnabled) {
+        logger.warn('autofill.disabled', 'AI is disabled for this form');
+        return [];
+      }
+
+      const key = `${ROWS_REQUEST}${name}`;
+      startLoading();
+      setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(key);
+      const { signal } = controller;
+
+      try {
+        const arrayPath = name as unknown as Path<T>;
+        const existing = (form.getValues(arrayPath) as unknown[] | undefined) ?? [];
+
+        // Describe a row from the options, or from the fields of the existing rows
+        const rowFields: AIFieldDescriptor[] = [];
+        if (fields) {
+          rowFields.push(...fields.map(toFieldDescriptor));
+        } else {
+          existing.forEach((row, index) => {
+            for (const path of listFieldPaths(row)) {
+              if (rowFields.some(field => field.name === path)) continue;
+              rowFields.push({ ...getFieldDescriptor(`${name}.${index}.${path}`), name: path });
+            }
+          });
+        }
+
+        if (rowFields.length === 0 || count <= 0) {
+          logger.warn('autofill.no-fields', `No fields to generate for rows of ${name}`, { field: name });
+          return [];
+        }
+
+        const rowPath = (index: number, field: string) => `${name}.${existing.length + index}.${field}`;
+        const descriptors: AIFieldDescriptor[] = [];
+        for (let index = 0; index < count; index++) {
+          for (const field of rowFields) {
+            if (!isFieldExcluded(rowPath(index, field.name), excludeFields)) {
+              descriptors.push({ ...field, name: rowPath(index, field.name) });
+            }
+          }
+        }
+
+        // Asking again should give new rows
+        const values = await generateValues(descriptors, signal, { cache: false });
+        throwIfAborted(signal);
+
+        const rows = Array.from({ length: count }, (_, index) => {
+          const row: Record<string, unknown> = {};
+          for (const field of rowFields) {
+            const path = rowPath(index, field.name);
+            if (path in values) set(row, field.name, values[path]);
+          }
+          return row as FieldArray<T, TName>;
+        });
+
+        if (append) {
+          append(rows);
+        } else {
+          form.setValue(arrayPath, [...existing, ...rows] as any, {
+            shouldDirty: true,
+            shouldValidate: true,
+          });
+        }
+
+        logger.info('autofill.rows-generated', `Generated ${count} rows for ${name}`, {
+          field: name,
+          data: { count },
+        });
+        return rows;
+      } catch (err) {
+        if (isAbortError(err)) return [];
+        const error = toAIError(err);
+        logger.error('autofill.failed', `Generating rows for ${name} failed`, {
+          provider: error.provider,
+          field: name,
+          error,
+        });
+        setAiError(error);
         throw error;
       } finally {
-        setAiLoading(false);
-        setAiDownloadProgress(null);
+        finishRequest(key, controller);
+        finishLoading();
       }
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [form, aiEnabled, excludeFields, aiAvailability]
+    [form, aiEnabled, excludeFields, getFieldDescriptor, generateValues, logger, startRequest, finishRequest, startLoading, finishLoading]
   );
 
   /**
    * Get AI suggestion for a specific field
    */
   const aiSuggest = useCallback(
-    async (fieldName: Path<T>): Promise<string | null> => {
+    async (fieldName: Path<T>, requestOptions?: AIFormRequestOptions): Promise<string | null> => {
       if (!aiEnabled) {
-        console.warn('AI is disabled');
+        logger.warn('suggestion.disabled', 'AI is disabled');
         return null;
       }
 
-      setAiLoading(true);
+      startLoading();
+      setAiError(null);
+      const controller = startRequest(String(fieldName));
 
       try {
         const currentValue = form.getValues(fieldName);
         const suggestion = await ai.suggestValue(
           String(fieldName), 
-          String(currentValue || '')
+          String(currentValue || ''),
+          { ...requestOptions, ...getSuggestOptions(String(fieldName)), signal: controller.signal }
         );
+        throwIfAborted(controller.signal);
         
         return suggestion;
-      } catch (error) {
-        console.error('AI suggest failed:', error);
+      } catch (err) {
+        if (isAbortError(err)) return null;
+        const error = toAIError(err);
+        logger.error('suggestion.failed', 'AI suggest failed', {
+          provider: error.provider,
+          field: String(fieldName),
+          error,
+        });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(String(fieldName), controller);
+        finishLoading();
+      }
+    },
+    [form, ai, aiEnabled, logger, getSuggestOptions, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Get AI suggestion for a specific field, streamed token by token
+   */
+  const aiSuggestStream = useCallback(
+    async (fieldName: Path<T>, onToken?: AITokenHandler): Promise<string | null> => {
+      if (!aiEnabled) {
+        logger.warn('suggestion.disabled', 'AI is disabled');
+        return null;
+      }
+
+      startLoading();
+      setAiError(null);
+      const controller = startRequest(String(fieldName));
+
+      try {
+        const currentValue = form.getValues(fieldName);
+        const suggestion = await ai.suggestValueStream(
+          String(fieldName),
+          String(currentValue || ''),
+          (token, text) => {
+            if (!controller.signal.aborted) onToken?.(token, text);
+          },
+          { ...getSuggestOptions(String(fieldName)), signal: controller.signal }
+        );
+        throwIfAborted(controller.signal);
+
+        return suggestion;
+      } catch (err) {
+        if (isAbortError(err)) return null;
+        const error = toAIError(err);
+        logger.error('suggestion.failed', 'AI streaming suggest failed', {
+          provider: error.provider,
+          field: String(fieldName),
+          error,
+        });
+        setAiError(error);
+        throw error;
+      } finally {
+        finishRequest(String(fieldName), controller);
+        finishLoading();
+      }
+    },
+    [form, ai, aiEnabled, logger, getSuggestOptions, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Run a writing task on a field's text and keep the result as the
+   * field's pending suggestion
+   */
+  const runFieldTask = useCallback(
+    async <R>(
+      fieldName: Path<T>,
+      task: 'proofread' | 'rewrite' | 'write',
+      run: (
+        field: AIFieldDescriptor,
+        options: {
+          provider?: AIProviderType;
+          onDownloadProgress: (progress: number) => void;
+          signal: AbortSignal;
+        }
+      ) => Promise<R | null>,
+      toSuggestion: (result: R) => AIFieldSuggestion | null
+    ): Promise<R | null> => {
+      if (!aiEnabled) {
+        logger.warn(`${task}.disabled`, 'AI is disabled');
         return null;
+      }
+
+      const name = String(fieldName);
+      startLoading();
+      setAiDownloadProgress(null);
+      setAiError(null);
+      const controller = startRequest(name);
+
+      try {
+        const result = await run(getFieldDescriptor(name), {
+          provider: fieldMeta.current.get(name)?.ai?.provider,
+          onDownloadProgress: progress => setAiDownloadProgress(progress),
+          signal: controller.signal,
+        });
+        throwIfAborted(controller.signal);
+
+        const suggestion = result === null ? null : toSuggestion(result);
+        if (suggestion) {
+          setAiSuggestions(prev => ({ ...prev, [name]: suggestion }));
+        }
+        return result;
+      } catch (err) {
+        if (isAbortError(err)) return null;
+        const error = toAIError(err);
+        logger.error(`${task}.failed`, `AI ${task} failed`, {
+          provider: error.provider,
+          field: name,
+          error,
+        });
+        setAiError(error);
+        throw error;
       } finally {
-        setAiLoading(false);
+        finishRequest(name, controller);
+        finishLoading();
       }
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [form, aiEnabled]
+    [aiEnabled, logger, getFieldDescriptor, startRequest, finishRequest, startLoading, finishLoading]
+  );
+
+  /**
+   * Correct spelling and grammar in a field without rewording it
+   */
+  const aiProofread = useCallback(
+    async (fieldName: Path<T>): Promise<AIProofreadResult | null> => {
+      const value = String(form.getValues(fieldName) ?? '');
+      if (!value.trim()) return null;
+
+      return runFieldTask(
+        fieldName,
+        'proofread',
+        (field, options) => ai.proofread(field, value, options),
+        result => result.corrections.length > 0 && result.corrected !== value
+          ? {
+              value: result.corrected,
+              provider: result.provider,
+              timestamp: Date.now(),
+              corrections: result.corrections,
+            }
+          : null
+      );
+    },
+    [form, ai, runFieldTask]
+  );
+
+  /**
+   * Rewrite a field's text in another tone or length
+   */
+  const aiRewrite = useCallback(
+    async (fieldName: Path<T>, options?: AIFormRewriteOptions): Promise<string | null> => {
+      const value = String(form.getValues(fieldName) ?? '');
+      if (!value.trim()) return null;
+
+      const response = await runFieldTask(
+        fieldName,
+        'rewrite',
+        (field, requestOptions) => ai.rewrite(field, value, { ...requestOptions, ...options }),
+        result => result.suggestion !== value
+          ? { value: result.suggestion, provider: result.provider, timestamp: Date.now() }
+          : null
+      );
+      return response?.suggestion ?? null;
+    },
+    [form, ai, runFieldTask]
+  );
+
+  /**
+   * Draft a field's text from a short description of what it should say
+   */
+  const aiWrite = useCallback(
+    async (fieldName: Path<T>, prompt: string, options?: AIFormWriteOptions): Promise<string | null> => {
+      if (!prompt.trim()) return null;
+
+      const response = await runFieldTask(
+        fieldName,
+        'write',
+        (field, requestOptions) => ai.write(field, prompt, { ...requestOptions, ...options }),
+        result => ({ value: result.suggestion, provider: result.provider, timestamp: Date.now() })
+      );
+      return response?.suggestion ?? null;
+    },
+    [ai, runFieldTask]
+  );
+
+  /**
+   * Apply a pending suggestion to its field
+   */
+  const aiAcceptSuggestion = useCallback(
+    (fieldName: Path<T>) => {
+      const suggestion = aiSuggestions[fieldName];
+      if (!suggestion) return;
+
+      form.setValue(fieldName, suggestion.value as any, {
+        shouldDirty: true,
+        shouldValidate: true,
+        shouldTouch: true,
+      });
+      setAiSuggestions(prev => {
+        const { [fieldName]: _accepted, ...rest } = prev;
+        return rest as typeof prev;
+      });
+    },
+    [form, aiSuggestions]
   );
 
+  /**
+   * Discard all pending suggestions
+   */
+  const aiClearSuggestions = useCallback(() => {
+    setAiSuggestions({});
+  }, []);
+
+  // Share the pipeline with AIController and useAIController, which only receive `control`
+  const bridge = getAIFormBridge(form.control);
+  bridge.current = {
+    isEnabled: name => aiEnabled && !isFieldExcluded(name, excludeFields),
+    trackField: (name, rules, fieldOptions) => {
+      trackField(name, rules, fieldOptions);
+    },
+    trackElement: (name, element) => {
+      const meta = fieldMeta.current.get(name);
+      if (meta) meta.element = describeElement(element, meta.element);
+    },
+    scheduleSuggestion,
+    cancel: name => aiCancel(name as Path<T>),
+    suggest: name => aiSuggest(name as Path<T>),
+    getSuggestion: name => aiSuggestions[name as Path<T>],
+    isLoading: name => !!pendingRequests[name],
+    accept: name => aiAcceptSuggestion(name as Path<T>),
+    reject: name => aiRejectSuggestion(name as Path<T>),
+  };
+
+  useEffect(() => {
+    bridge.listeners.forEach(listener => listener());
+  }, [bridge, aiSuggestions, pendingRequests]);
+
   return {
     ...form,
-    register: registerWithAI as UseFormReturn<T>["register"],
+    register: registerWithAI,
     aiEnabled,
     aiAutofill,
+    aiExtract,
+    aiTranslate,
+    aiSummarize,
+    aiGenerateRows,
     aiSuggest,
+    aiSuggestStream,
+    aiProofread,
+    aiRewrite,
+    aiWrite,
     aiLoading,
+    aiError,
     aiAvailability,
     refreshAvailability,
     aiDownloadProgress,
+    aiSuggestions,
+    aiAcceptSuggestion,
+    aiRejectSuggestion,
+    aiClearSuggestions,
+    aiCancel,
   };
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { clearAICache, getAICache, resolveCacheOptions } from './cache';
+
+const STORAGE_KEY = 'react-hook-form-ai:cache';
+
+function persisted(): Record<string, unknown> {
+  return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+}
+
+describe('AI cache in sessionStorage', () => {
+  const cache = getAICache('sessionStorage');
+  const options = resolveCacheOptions({ ttlMs: 1000, storage: 'sessionStorage' })!;
+  let now: number;
+
+  beforeEach(async () => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    await clearAICache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reuses a response until it expires', async () => {
+    await cache.set('suggest:a', { suggestion: 'Berlin' }, 'openai', options);
+
+    now += 999;
+    await expect(cache.get('suggest:a')).resolves.toEqual({
+      value: { suggestion: 'Berlin' },
+      provider: 'openai',
+    });
+    now += 1;
+    await expect(cache.get('suggest:a')).resolves.toBeUndefined();
+  });
+
+  it('deletes expired responses from storage', async () => {
+    await cache.set('suggest:a', { suggestion: 'Berlin' }, 'openai', options);
+    await cache.set('suggest:b', { suggestion: 'Paris' }, 'openai', { ...options, ttlMs: 5000 });
+
+    now += 1000;
+    await cache.get('suggest:a');
+
+    expect(Object.keys(persisted())).toEqual(['suggest:b']);
+  });
+
+  it('drops the least recently written responses from storage', async () => {
+    for (const key of ['a', 'b', 'c']) {
+      await cache.set(key, key, 'openai', { ...options, maxEntries: 2 });
+      now += 1;
+    }
+
+    expect(Object.keys(persisted()).sort()).toEqual(['b', 'c']);
+  });
+});
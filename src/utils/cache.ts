@@ -0,0 +1,265 @@
+import type { AICacheOptions, AICacheStorage, AIProviderType } from '../types';
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 100;
+const STORAGE_KEY = 'react-hook-form-ai:cache';
+const DB_NAME = 'react-hook-form-ai';
+const DB_STORE = 'responses';
+
+interface AICacheEntry {
+  value: unknown;
+  provider: AIProviderType;
+  expiresAt: number;
+  /** Last use in memory, last write when persisted; the oldest entries are dropped first */
+  usedAt: number;
+}
+
+/**
+ * Where entries outlive the page's memory. Failures are swallowed by the
+ * cache, which must never break a request.
+ */
+interface PersistentStore {
+  get(key: string): Promise<AICacheEntry | undefined>;
+  set(key: string, entry: AICacheEntry, maxEntries: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(provider?: AIProviderType): Promise<void>;
+}
+
+export interface AICache {
+  get<T>(key: string): Promise<{ value: T; provider: AIProviderType } | undefined>;
+  set(
+    key: string,
+    value: unknown,
+    provider: AIProviderType,
+    options: Required<AICacheOptions>
+  ): Promise<void>;
+  clear(provider?: AIProviderType): Promise<void>;
+}
+
+/**
+ * Settings for `cache: true` or an options object; `null` when caching is off
+ */
+export function resolveCacheOptions(
+  cache: boolean | AICacheOptions | undefined
+): Required<AICacheOptions> | null {
+  if (!cache) return null;
+  const options = cache === true ? {} : cache;
+  return {
+    ttlMs: options.ttlMs ?? DEFAULT_TTL_MS,
+    maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    storage: options.storage ?? 'memory',
+  };
+}
+
+/**
+ * A 64-bit hash (cyrb53 with both halves) of the JSON of `value`; functions
+ * such as prompt templates are hashed by their source
+ */
+export function hashCacheKey(value: unknown): string {
+  const text = JSON.stringify(value, (_key, item) => (typeof item === 'function' ? String(item) : item)) ?? '';
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+function sessionStorageStore(): PersistentStore {
+  const read = (): Record<string, AICacheEntry> => {
+    try {
+      return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  };
+  const write = (entries: Record<string, AICacheEntry>) => {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch {
+      // Storage is full or disabled; the memory cache still works
+    }
+  };
+
+  return {
+    async get(key) {
+      return read()[key];
+    },
+    async set(key, entry, maxEntries) {
+      const entries = read();
+      entries[key] = entry;
+      const keys = Object.keys(entries).sort((a, b) => entries[a].usedAt - entries[b].usedAt);
+      for (const stale of keys.slice(0, Math.max(0, keys.length - maxEntries))) {
+        delete entries[stale];
+      }
+      write(entries);
+    },
+    async delete(key) {
+      const entries = read();
+      if (!(key in entries)) return;
+      delete entries[key];
+      write(entries);
+    },
+    async clear(provider) {
+      if (!provider) {
+        sessionStorage.removeItem(STORAGE_KEY);
+        return;
+      }
+      const entries = read();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.provider === provider) delete entries[key];
+      }
+      write(entries);
+    },
+  };
+}
+
+function indexedDBStore(): PersistentStore {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const store = (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE);
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // Drop entries matching `drop`, given every key and its entry
+  const prune = async (drop: (keys: IDBValidKey[], entries: AICacheEntry[]) => IDBValidKey[]) => {
+    const [keys, entries] = await Promise.all([
+      run('readonly', store => store.getAllKeys()),
+      run('readonly', store => store.getAll() as IDBRequest<AICacheEntry[]>),
+    ]);
+    for (const key of drop(keys, entries)) {
+      await run('readwrite', store => store.delete(key));
+    }
+  };
+
+  return {
+    async get(key) {
+      return run('readonly', store => store.get(key) as IDBRequest<AICacheEntry | undefined>);
+    },
+    async set(key, entry, maxEntries) {
+      await run('readwrite', store => store.put(entry, key));
+      await prune((keys, entries) =>
+        keys
+          .map((storedKey, index) => ({ storedKey, usedAt: entries[index].usedAt }))
+          .sort((a, b) => a.usedAt - b.usedAt)
+          .slice(0, Math.max(0, keys.length - maxEntries))
+          .map(({ storedKey }) => storedKey)
+      );
+    },
+    async delete(key) {
+      await run('readwrite', store => store.delete(key));
+    },
+    async clear(provider) {
+      if (!provider) {
+        await run('readwrite', store => store.clear());
+        return;
+      }
+      await prune((keys, entries) => keys.filter((_key, index) => entries[index].provider === provider));
+    },
+  };
+}
+
+function createPersistentStore(storage: AICacheStorage): PersistentStore | null {
+  if (storage === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
+    return sessionStorageStore();
+  }
+  if (storage === 'indexedDB' && typeof indexedDB !== 'undefined') {
+    return indexedDBStore();
+  }
+  return null;
+}
+
+/**
+ * An LRU cache in memory, in front of the persistent store if there is one
+ */
+function createAICache(storage: AICacheStorage): AICache {
+  const entries = new Map<string, AICacheEntry>();
+  const persistent = createPersistentStore(storage);
+
+  const trim = (maxEntries: number) => {
+    for (const key of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      let entry = entries.get(key);
+      if (!entry && persistent) {
+        entry = await persistent.get(key).catch(() => undefined);
+      }
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        await persistent?.delete(key).catch(() => undefined);
+        return undefined;
+      }
+
+      // Reinsert so the map stays ordered from least to most recently used
+      entries.delete(key);
+      entries.set(key, { ...entry, usedAt: Date.now() });
+      return { value: entry.value as T, provider: entry.provider };
+    },
+    async set(key, value, provider, { ttlMs, maxEntries }) {
+      const now = Date.now();
+      const entry: AICacheEntry = { value, provider, expiresAt: now + ttlMs, usedAt: now };
+      entries.delete(key);
+      entries.set(key, entry);
+      trim(maxEntries);
+      await persistent?.set(key, entry, maxEntries).catch(() => undefined);
+    },
+    async clear(provider) {
+      for (const [key, entry] of entries) {
+        if (!provider || entry.provider === provider) entries.delete(key);
+      }
+      await persistent?.clear(provider).catch(() => undefined);
+    },
+  };
+}
+
+// One cache per storage, shared by every form on the page
+const caches = new Map<AICacheStorage, AICache>();
+
+export function getAICache(storage: AICacheStorage): AICache {
+  let cache = caches.get(storage);
+  if (!cache) {
+    cache = createAICache(storage);
+    caches.set(storage, cache);
+  }
+  return cache;
+}
+
+/**
+ * Drop cached responses, from every provider or only from `provider`,
+ * including persisted ones
+ */
+export async function clearAICache(provider?: AIProviderType): Promise<void> {
+  const storages: AICacheStorage[] = ['memory', 'sessionStorage', 'indexedDB'];
+  await Promise.all(storages.map(storage => getAICache(storage).clear(provider)));
+}
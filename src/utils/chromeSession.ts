@@ -0,0 +1,148 @@
+import { isAbortError } from './abort';
+
+export interface ChromeSessionOptions {
+  temperature?: number;
+  topK?: number;
+  /** System prompt the session is primed with */
+  systemPrompt: string;
+}
+
+interface AcquireOptions {
+  signal?: AbortSignal;
+  monitor?: (monitor: DownloadMonitor) => void;
+}
+
+export interface ChromeSessionHandle {
+  session: LanguageModelSession;
+  /** Destroy the per-request session; the warm base session is kept */
+  release(): void;
+}
+
+// Recreate the base session once it has used this share of its input quota
+const QUOTA_THRESHOLD = 0.9;
+
+/**
+ * Resolve temperature/topK against `LanguageModel.params()`. Chrome requires
+ * both or neither, so a missing one is filled in with its default.
+ */
+async function resolveSamplingParams(
+  options: ChromeSessionOptions
+): Promise<{ temperature?: number; topK?: number }> {
+  if (options.temperature === undefined && options.topK === undefined) {
+    return {};
+  }
+  if (typeof LanguageModel.params !== 'function') {
+    return { temperature: options.temperature, topK: options.topK };
+  }
+
+  const params = await LanguageModel.params();
+  return {
+    temperature: Math.min(options.temperature ?? params.defaultTemperature, params.maxTemperature),
+    topK: Math.min(options.topK ?? params.defaultTopK, params.maxTopK),
+  };
+}
+
+async function createSession(
+  options: ChromeSessionOptions,
+  { signal, monitor }: AcquireOptions
+): Promise<LanguageModelSession> {
+  return LanguageModel.create({
+    ...(await resolveSamplingParams(options)),
+    signal,
+    monitor,
+    initialPrompts: [{ role: 'system', content: options.systemPrompt }],
+  });
+}
+
+function isExhausted(session: LanguageModelSession): boolean {
+  return session.inputQuota > 0 && session.inputUsage / session.inputQuota >= QUOTA_THRESHOLD;
+}
+
+/**
+ * Keeps a warm base session primed with the system prompt and hands out
+ * clones of it, so each request skips session startup.
+ */
+class ChromeSessionManager {
+  private base: Promise<LanguageModelSession> | null = null;
+
+  constructor(private options: ChromeSessionOptions) {}
+
+  private getBase(monitor?: AcquireOptions['monitor']): Promise<LanguageModelSession> {
+    if (!this.base) {
+      // The base session is shared, so it is not tied to any caller's signal
+      this.base = createSession(this.options, { monitor }).catch(err => {
+        this.base = null;
+        throw err;
+      });
+    }
+    return this.base;
+  }
+
+  async acquire({ signal, monitor }: AcquireOptions): Promise<ChromeSessionHandle> {
+    let base = await this.getBase(monitor);
+    if (isExhausted(base)) {
+      this.reset();
+      base = await this.getBase(monitor);
+    }
+
+    const session = await base.clone({ signal });
+    return {
+      session,
+      release: () => {
+        if (isExhausted(session)) this.reset();
+        session.destroy();
+      },
+    };
+  }
+
+  reset(): void {
+    const base = this.base;
+    this.base = null;
+    base?.then(session => session.destroy()).catch(() => undefined);
+  }
+}
+
+const managers = new Map<string, ChromeSessionManager>();
+
+/**
+ * Open a session for a single request. With `reuse`, the session is cloned
+ * from a pooled base session keyed by the sampling options and system prompt.
+ */
+export async function acquireChromeSession(
+  options: ChromeSessionOptions & { reuse?: boolean },
+  acquireOptions: AcquireOptions = {}
+): Promise<ChromeSessionHandle> {
+  const { reuse = true, ...sessionOptions } = options;
+
+  if (!reuse) {
+    const session = await createSession(sessionOptions, acquireOptions);
+    return { session, release: () => session.destroy() };
+  }
+
+  const key = JSON.stringify([
+    sessionOptions.temperature,
+    sessionOptions.topK,
+    sessionOptions.systemPrompt,
+  ]);
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new ChromeSessionManager(sessionOptions);
+    managers.set(key, manager);
+  }
+
+  try {
+    return await manager.acquire(acquireOptions);
+  } catch (err) {
+    // A broken base session would fail every request, start over next time
+    if (!isAbortError(err)) manager.reset();
+    throw err;
+  }
+}
+
+/**
+ * Destroy all pooled Chrome AI sessions
+ */
+export function resetChromeSessions(): void {
+  managers.forEach(manager => manager.reset());
+  managers.clear();
+}
@@ -0,0 +1,90 @@
+import { AIError } from '../errors';
+import type {
+  AIExtractData,
+  AIExtractInput,
+  AIFieldDescriptor,
+  AIProviderType,
+} from '../types';
+
+const TEXT_FILE_EXTENSIONS = /\.(txt|text|md|markdown|csv|tsv|json|xml|html?|eml|vcf|ics|log)$/i;
+
+function isTextFile(file: File): boolean {
+  if (file.type) {
+    return file.type.startsWith('text/') || /[/+](json|xml)$/.test(file.type) || file.type === 'message/rfc822';
+  }
+  return TEXT_FILE_EXTENSIONS.test(file.name);
+}
+
+/**
+ * The text of an extraction input. Providers that only take text throw a
+ * non-retryable error for other files so the next provider is tried.
+ */
+export async function readExtractText(
+  input: AIExtractInput,
+  provider: AIProviderType
+): Promise<string> {
+  if (typeof input === 'string') return input;
+
+  if (!isTextFile(input)) {
+    throw new AIError(
+      `${provider} cannot read ${input.type || input.name}; pass the document's text instead`,
+      'invalid-request',
+      { provider }
+    );
+  }
+  return input.text();
+}
+
+function findSpan(text: string, source: string): { start: number; end: number } | undefined {
+  const start = text.indexOf(source);
+  if (start !== -1) return { start, end: start + source.length };
+
+  // Models often change the case or whitespace of the passage they quote
+  const pattern = source.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  const match = pattern ? new RegExp(pattern, 'i').exec(text) : null;
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalize a provider's extraction response. Fields may be reported as
+ * `{ value, confidence, source }` or as bare values; `null` values and
+ * unknown fields are dropped, and sources are located in `text` when it
+ * is known.
+ */
+export function toExtractData(
+  raw: Record<string, unknown>,
+  fields: AIFieldDescriptor[],
+  text?: string
+): AIExtractData {
+  const extracted: AIExtractData = {};
+
+  for (const field of fields) {
+    const entry = raw[field.name];
+    const isDetailed = typeof entry === 'object' && entry !== null && !Array.isArray(entry) && 'value' in entry;
+    const { value, confidence, source, span } = isDetailed
+      ? (entry as { value: unknown; confidence?: unknown; source?: unknown; span?: any })
+      : { value: entry, confidence: undefined, source: undefined, span: undefined };
+
+    if (value === null || value === undefined || value === '') continue;
+
+    extracted[field.name] = { value };
+    if (typeof confidence === 'number' && Number.isFinite(confidence)) {
+      extracted[field.name].confidence = Math.min(1, Math.max(0, confidence));
+    }
+    if (typeof source === 'string' && source.trim()) {
+      extracted[field.name].source = source;
+      const found = text !== undefined ? findSpan(text, source) : undefined;
+      if (found) extracted[field.name].span = found;
+    }
+    // Servers that parse files themselves may report the span
+    if (text === undefined && typeof span?.start === 'number' && typeof span?.end === 'number') {
+      extracted[field.name].span = { start: span.start, end: span.end };
+    }
+  }
+
+  return extracted;
+}
@@ -0,0 +1,26 @@
+import { coerceFieldValue } from './fieldSchema';
+
+describe('coerceFieldValue', () => {
+  const amount = { name: 'amount', valueType: 'number' } as const;
+
+  it.each([
+    ['$1,200', 1200],
+    ['42', 42],
+    [' -3.5 kg', -3.5],
+    ['1e3', 1000],
+    [7, 7],
+  ])('reads the number in %p', (value, expected) => {
+    expect(coerceFieldValue(value, amount)).toBe(expected);
+  });
+
+  it.each(['N/A', 'unknown', '', '-'])('keeps %p without digits as is', value => {
+    expect(coerceFieldValue(value, amount)).toBe(value);
+  });
+
+  it('reads yes and no answers as booleans', () => {
+    const subscribed = { name: 'subscribed', valueType: 'boolean' } as const;
+
+    expect(coerceFieldValue('Yes', subscribed)).toBe(true);
+    expect(coerceFieldValue('no', subscribed)).toBe(false);
+  });
+});
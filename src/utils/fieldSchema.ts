@@ -0,0 +1,463 @@
+import type {
+  AIAutofillCorrection,
+  AIFieldDescriptor,
+  AIFieldOption,
+  AIFieldRules,
+  AIFieldValueType,
+} from '../types';
+
+type RuleValue<V> = V | { value: V; message?: unknown } | undefined;
+
+function ruleValue<V>(rule: RuleValue<V>): V | undefined {
+  if (rule && typeof rule === 'object' && 'value' in (rule as object)) {
+    return (rule as { value: V }).value;
+  }
+  return rule as V | undefined;
+}
+
+/**
+ * Extract the AI-relevant parts of react-hook-form `register` rules
+ */
+export function describeRules(rules?: Record<string, any>): {
+  rules?: AIFieldRules;
+  valueType?: AIFieldValueType;
+} {
+  if (!rules) return {};
+
+  const described: AIFieldRules = {};
+  const required = ruleValue<boolean | string>(rules.required);
+  if (required) described.required = true;
+
+  const min = ruleValue<number | string>(rules.min);
+  if (min !== undefined) described.min = min;
+  const max = ruleValue<number | string>(rules.max);
+  if (max !== undefined) described.max = max;
+  const minLength = ruleValue<number>(rules.minLength);
+  if (minLength !== undefined) described.minLength = minLength;
+  const maxLength = ruleValue<number>(rules.maxLength);
+  if (maxLength !== undefined) described.maxLength = maxLength;
+
+  const pattern = ruleValue<RegExp | string>(rules.pattern);
+  if (pattern !== undefined) {
+    described.pattern = pattern instanceof RegExp ? pattern.source : String(pattern);
+  }
+
+  let valueType: AIFieldValueType | undefined;
+  if (rules.valueAsNumber) valueType = 'number';
+  else if (rules.valueAsDate) valueType = 'date';
+
+  return {
+    rules: Object.keys(described).length > 0 ? described : undefined,
+    valueType,
+  };
+}
+
+function elementLabel(el: HTMLElement): string | undefined {
+  const labels = (el as HTMLInputElement).labels;
+  const labelText = labels && labels.length > 0 ? labels[0].textContent?.trim() : undefined;
+  return (
+    labelText ||
+    el.getAttribute('aria-label') ||
+    el.getAttribute('placeholder') ||
+    undefined
+  );
+}
+
+function elementDescription(el: HTMLElement): string | undefined {
+  const describedBy = el.getAttribute('aria-describedby');
+  if (describedBy && typeof document !== 'undefined') {
+    const text = describedBy
+      .split(/\s+/)
+      .map(id => document.getElementById(id)?.textContent?.trim())
+      .filter(Boolean)
+      .join(' ');
+    if (text) return text;
+  }
+  return el.getAttribute('title') || undefined;
+}
+
+/**
+ * Describe a field from the DOM element react-hook-form attaches via `ref`.
+ * Radio and checkbox groups are merged into `previous`.
+ */
+export function describeElement(
+  el: HTMLElement,
+  previous?: Partial<AIFieldDescriptor>
+): Partial<AIFieldDescriptor> {
+  const descriptor: Partial<AIFieldDescriptor> = {};
+  const rules: AIFieldRules = {};
+  const tag = el.tagName.toLowerCase();
+
+  if (tag === 'select') {
+    const select = el as HTMLSelectElement;
+    descriptor.inputType = 'select';
+    descriptor.valueType = select.multiple ? 'array' : 'string';
+    descriptor.options = Array.from(select.options)
+      .filter(option => option.value !== '')
+      .map(option => ({ value: option.value, label: option.text.trim() || undefined }));
+  } else if (tag === 'textarea') {
+    descriptor.inputType = 'textarea';
+  } else if (tag === 'input') {
+    const input = el as HTMLInputElement;
+    const type = input.type || 'text';
+    descriptor.inputType = type;
+
+    if (type === 'number' || type === 'range') {
+      descriptor.valueType = 'number';
+    } else if (type === 'radio' || type === 'checkbox') {
+      const hasValue = input.hasAttribute('value');
+      const option: AIFieldOption = { value: input.value, label: elementLabel(input) };
+      const options = [...(previous?.options ?? [])];
+      if (hasValue && !options.some(o => o.value === option.value)) {
+        options.push(option);
+      }
+
+      if (type === 'checkbox') {
+        descriptor.valueType = options.length > 1 ? 'array' : 'boolean';
+      } else {
+        descriptor.valueType = 'string';
+      }
+      if (options.length > 0 && (type === 'radio' || options.length > 1)) {
+        descriptor.options = options;
+      }
+      // Group members carry their own label, not the field's
+      return { ...previous, ...descriptor };
+    }
+  }
+
+  const input = el as HTMLInputElement;
+  if (input.required) rules.required = true;
+  if (input.min) rules.min = input.min;
+  if (input.max) rules.max = input.max;
+  if (input.minLength > 0) rules.minLength = input.minLength;
+  if (input.maxLength > 0) rules.maxLength = input.maxLength;
+  if (input.pattern) rules.pattern = input.pattern;
+  if (Object.keys(rules).length > 0) descriptor.rules = rules;
+
+  const label = elementLabel(el);
+  if (label) descriptor.label = label;
+  const description = elementDescription(el);
+  if (description) descriptor.description = description;
+
+  return descriptor;
+}
+
+/**
+ * Guess a field's value type from its current value
+ */
+export function inferValueType(value: unknown): AIFieldValueType | undefined {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return 'string';
+  return undefined;
+}
+
+/**
+ * Merge descriptor fragments; later fragments win, rules are merged
+ */
+export function mergeFieldDescriptors(
+  name: string,
+  ...parts: Array<Partial<AIFieldDescriptor> | undefined>
+): AIFieldDescriptor {
+  return parts.reduce<AIFieldDescriptor>((merged, part) => {
+    if (!part) return merged;
+    const defined = Object.fromEntries(
+      Object.entries(part).filter(([, value]) => value !== undefined)
+    ) as Partial<AIFieldDescriptor>;
+    return {
+      ...merged,
+      ...defined,
+      name,
+      rules: merged.rules || part.rules ? { ...merged.rules, ...part.rules } : undefined,
+    };
+  }, { name });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Dotted paths of the fields under `value`, e.g. `address.city` and
+ * `experience.0.company`. Arrays of primitives (multi-selects, checkbox
+ * groups) are fields of their own.
+ */
+export function listFieldPaths(value: unknown, prefix = ''): string[] {
+  const child = (key: string | number) => (prefix ? `${prefix}.${key}` : String(key));
+
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce<string[]>(
+      (paths, key) => paths.concat(listFieldPaths(value[key], child(key))),
+      []
+    );
+  }
+  if (Array.isArray(value) && value.some(isPlainObject)) {
+    return value.reduce<string[]>(
+      (paths, item, index) => paths.concat(listFieldPaths(item, child(index))),
+      []
+    );
+  }
+  return prefix ? [prefix] : [];
+}
+
+/**
+ * Flatten nested objects in an AI response into dotted field paths
+ */
+export function flattenFieldValues(data: Record<string, unknown>): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const path of listFieldPaths(data)) {
+    flat[path] = path in data
+      ? data[path]
+      : path.split('.').reduce<any>((value, key) => value?.[key], data);
+  }
+  return flat;
+}
+
+/**
+ * Whether `name` or one of its parents is in `excludeFields`
+ */
+export function isFieldExcluded(name: string, excludeFields: string[]): boolean {
+  return excludeFields.some(field => name === field || name.startsWith(`${field}.`));
+}
+
+/**
+ * The values at dotted `paths`, with everything below them, nested as in `values`
+ */
+export function pickFieldValues(
+  values: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  const picked: Record<string, any> = {};
+  for (const path of paths) {
+    const keys = path.split('.');
+    const value = keys.reduce<any>((parent, key) => parent?.[key], values);
+    if (value === undefined) continue;
+
+    let target = picked;
+    for (const key of keys.slice(0, -1)) {
+      target = target[key] ??= {};
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return picked;
+}
+
+export function toFieldDescriptor(field: string | AIFieldDescriptor): AIFieldDescriptor {
+  return typeof field === 'string' ? { name: field } : field;
+}
+
+/**
+ * Render field descriptors as a bulleted list for prompts
+ */
+export function describeFieldsForPrompt(fields: AIFieldDescriptor[]): string {
+  return fields
+    .map(field => {
+      const details: string[] = [];
+      if (field.valueType && field.valueType !== 'string') details.push(field.valueType);
+      if (field.inputType && !['text', 'textarea', 'select'].includes(field.inputType)) {
+        details.push(`input type "${field.inputType}"`);
+      }
+      const rules = field.rules;
+      if (rules?.required) details.push('required');
+      if (rules?.min !== undefined) details.push(`min ${rules.min}`);
+      if (rules?.max !== undefined) details.push(`max ${rules.max}`);
+      if (rules?.minLength !== undefined) details.push(`at least ${rules.minLength} characters`);
+      if (rules?.maxLength !== undefined) details.push(`at most ${rules.maxLength} characters`);
+      if (rules?.pattern) details.push(`must match /${rules.pattern}/`);
+      if (field.options?.length) {
+        details.push(`one of ${field.options.map(o => JSON.stringify(o.value)).join(', ')}`);
+      }
+
+      let line = `- ${field.name}`;
+      if (field.label && field.label !== field.name) line += ` ("${field.label}")`;
+      if (details.length > 0) line += `: ${details.join('; ')}`;
+      if (field.description) line += ` — ${field.description}`;
+      if (field.instructions) line += `\n  Instructions: ${field.instructions}`;
+      return line;
+    })
+    .join('\n');
+}
+
+function toNumber(value: number | string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * JSON schema for one field, limited to the keywords structured-output
+ * APIs accept in strict mode. Other constraints go in the description.
+ */
+function fieldJSONSchema(field: AIFieldDescriptor): Record<string, unknown> {
+  const notes: string[] = [];
+  if (field.label && field.label !== field.name) notes.push(field.label);
+  if (field.description) notes.push(field.description);
+  if (field.instructions) notes.push(field.instructions);
+  const rules = field.rules;
+  const optionValues = field.options?.map(o => o.value);
+
+  let schema: Record<string, unknown>;
+  switch (field.valueType) {
+    case 'number': {
+      schema = { type: 'number' };
+      const min = toNumber(rules?.min);
+      const max = toNumber(rules?.max);
+      if (min !== undefined) schema.minimum = min;
+      if (max !== undefined) schema.maximum = max;
+      break;
+    }
+    case 'boolean':
+      schema = { type: 'boolean' };
+      break;
+    case 'array':
+      schema = {
+        type: 'array',
+        items: optionValues?.length ? { type: 'string', enum: optionValues } : { type: 'string' },
+      };
+      break;
+    case 'date':
+      schema = { type: 'string' };
+      notes.push('ISO 8601 date');
+      break;
+    default:
+      schema = optionValues?.length ? { type: 'string', enum: optionValues } : { type: 'string' };
+      if (rules?.pattern) schema.pattern = rules.pattern;
+      if (field.inputType && DATE_INPUT_FORMATS[field.inputType]) {
+        notes.push(`HTML ${field.inputType} input value`);
+      }
+      if (rules?.min !== undefined && field.inputType) notes.push(`min ${rules.min}`);
+      if (rules?.max !== undefined && field.inputType) notes.push(`max ${rules.max}`);
+  }
+
+  if (rules?.minLength !== undefined) notes.push(`at least ${rules.minLength} characters`);
+  if (rules?.maxLength !== undefined) notes.push(`at most ${rules.maxLength} characters`);
+  if (notes.length > 0) schema.description = notes.join('; ');
+  return schema;
+}
+
+/**
+ * JSON schema for an autofill response covering `fields`
+ */
+export function buildAutofillSchema(fields: AIFieldDescriptor[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field.name, fieldJSONSchema(field)])),
+    required: fields.map(field => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * JSON schema for an extraction response: every field has a nullable
+ * value, a confidence and the passage it was taken from
+ */
+export function buildExtractSchema(fields: AIFieldDescriptor[]): Record<string, unknown> {
+  const extracted = (field: AIFieldDescriptor) => ({
+    type: 'object',
+    properties: {
+      value: { anyOf: [fieldJSONSchema(field), { type: 'null' }] },
+      confidence: { type: 'number' },
+      source: { type: ['string', 'null'] },
+    },
+    required: ['value', 'confidence', 'source'],
+    additionalProperties: false,
+  });
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field.name, extracted(field)])),
+    required: fields.map(field => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Render failed values and their validation errors for repair prompts
+ */
+export function describeCorrectionsForPrompt(corrections: AIAutofillCorrection[]): string {
+  return corrections
+    .map(c => `- ${c.name}: ${JSON.stringify(c.value)} is invalid (${c.message})`)
+    .join('\n');
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDateForInput(date: Date, inputType?: string): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  switch (inputType) {
+    case 'datetime-local':
+      return `${day}T${time}`;
+    case 'month':
+      return day.slice(0, 7);
+    case 'time':
+      return time;
+    default:
+      return day;
+  }
+}
+
+const DATE_INPUT_FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'datetime-local': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/,
+  month: /^\d{4}-\d{2}$/,
+  time: /^\d{2}:\d{2}(:\d{2})?$/,
+};
+
+function matchOption(value: string, options?: AIFieldOption[]): string {
+  if (!options || options.length === 0) return value;
+  const normalized = value.trim().toLowerCase();
+  const match = options.find(
+    o => o.value.toLowerCase() === normalized || o.label?.toLowerCase() === normalized
+  );
+  return match ? match.value : value;
+}
+
+/**
+ * Coerce a value returned by the AI to the JS type the field expects
+ */
+export function coerceFieldValue(value: unknown, field: AIFieldDescriptor): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (field.valueType) {
+    case 'number': {
+      if (typeof value === 'number') return value;
+      // Without a digit, `Number` would turn answers like "N/A" into 0
+      const digits = String(value).replace(/[^\d.eE+-]/g, '');
+      if (!/\d/.test(digits)) return value;
+      const parsed = Number(digits);
+      return Number.isFinite(parsed) ? parsed : value;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      return ['true', 'yes', 'y', '1', 'on', 'checked'].includes(
+        String(value).trim().toLowerCase()
+      );
+    }
+    case 'date': {
+      if (value instanceof Date) return value;
+      const parsed = new Date(String(value));
+      return Number.isNaN(parsed.getTime()) ? value : parsed;
+    }
+    case 'array': {
+      const items = Array.isArray(value) ? value : String(value).split(',');
+      return items.map(item => matchOption(String(item).trim(), field.options));
+    }
+    default: {
+      const text = typeof value === 'string' ? value : String(value);
+      const inputFormat = field.inputType ? DATE_INPUT_FORMATS[field.inputType] : undefined;
+      if (inputFormat) {
+        if (inputFormat.test(text)) return text;
+        const parsed = new Date(field.inputType === 'time' ? `1970-01-01T${text}` : text);
+        return Number.isNaN(parsed.getTime()) ? text : formatDateForInput(parsed, field.inputType);
+      }
+      return matchOption(text, field.options);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { AIFieldOptions, AIFieldSuggestion } from '../types';
+
+/**
+ * The parts of `useForm` that AI-aware controllers use, addressed by field name
+ */
+export interface AIFormBridge {
+  /** Whether AI is enabled for the form and the field is not excluded */
+  isEnabled(name: string): boolean;
+  /** Record a field's rules and AI options, as `register` does */
+  trackField(name: string, rules: Record<string, any> | undefined, options: AIFieldOptions | undefined): void;
+  /** Describe a field from the element it renders */
+  trackElement(name: string, element: HTMLElement): void;
+  /** Fetch a suggestion once the field has been idle for its debounce time */
+  scheduleSuggestion(name: string, value: unknown): void;
+  cancel(name: string): void;
+  suggest(name: string): Promise<string | null>;
+  getSuggestion(name: string): AIFieldSuggestion | undefined;
+  isLoading(name: string): boolean;
+  accept(name: string): void;
+  reject(name: string): void;
+}
+
+export interface AIFormBridgeHandle {
+  /** Set on every render of the `useForm` that owns the control */
+  current: AIFormBridge | null;
+  /** Notified when suggestions or loading state change */
+  listeners: Set<() => void>;
+}
+
+const bridges = new WeakMap<object, AIFormBridgeHandle>();
+
+/**
+ * The bridge for a react-hook-form `control`. Its `current` stays `null`
+ * when the control comes from a `useForm` without AI.
+ */
+export function getAIFormBridge(control: object): AIFormBridgeHandle {
+  let handle = bridges.get(control);
+  if (!handle) {
+    handle = { current: null, listeners: new Set() };
+    bridges.set(control, handle);
+  }
+  return handle;
+}
@@ -0,0 +1,52 @@
+import { AIParseError } from '../errors';
+import { parseJSONObject } from './json';
+
+describe('parseJSONObject', () => {
+  it('parses plain JSON', () => {
+    expect(parseJSONObject('{"city": "Berlin", "zip": 10115}')).toEqual({ city: 'Berlin', zip: 10115 });
+  });
+
+  it('strips code fences', () => {
+    expect(parseJSONObject('```json\n{"city": "Berlin"}\n```')).toEqual({ city: 'Berlin' });
+    expect(parseJSONObject('```\n{"city": "Berlin"}\n```')).toEqual({ city: 'Berlin' });
+  });
+
+  it('finds the object in surrounding prose', () => {
+    expect(parseJSONObject('Here are the values: {"city": "Berlin"} Let me know!')).toEqual({
+      city: 'Berlin',
+    });
+  });
+
+  it('ignores braces and quotes inside strings', () => {
+    expect(parseJSONObject('{"notes": "use {name} and \\"}\\" here", "n": {"a": 1}} trailing }')).toEqual({
+      notes: 'use {name} and "}" here',
+      n: { a: 1 },
+    });
+  });
+
+  it('repairs trailing commas outside strings', () => {
+    expect(parseJSONObject('{"tags": ["a", "b",], "note": "x,}",\n}')).toEqual({
+      tags: ['a', 'b'],
+      note: 'x,}',
+    });
+  });
+
+  it('throws an AIParseError with the raw text for prose', () => {
+    const text = 'Sorry, I cannot help with that.';
+    let error: unknown;
+    try {
+      parseJSONObject(text, 'openai');
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(AIParseError);
+    expect(error).toMatchObject({ code: 'parse', provider: 'openai', raw: text });
+  });
+
+  it('throws an AIParseError for invalid or non-object JSON', () => {
+    expect(() => parseJSONObject('{"city": Berlin}')).toThrow(AIParseError);
+    expect(() => parseJSONObject('{"city": "Berlin"')).toThrow(AIParseError);
+    expect(() => parseJSONObject('["Berlin"]')).toThrow(AIParseError);
+  });
+});
@@ -0,0 +1,83 @@
+import { AIParseError } from '../errors';
+import type { AIProviderType } from '../types';
+
+/**
+ * Slice the first balanced `{...}` out of `text`, ignoring braces in strings
+ */
+function extractObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove commas directly before a closing brace or bracket, outside strings
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += json[++i] ?? '';
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) continue;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Parse a JSON object out of model output that may be wrapped in code
+ * fences or prose, or contain trailing commas.
+ *
+ * @throws AIParseError when no JSON object can be recovered
+ */
+export function parseJSONObject(text: string, provider?: AIProviderType): Record<string, unknown> {
+  const unfenced = text.replace(/```(?:json)?\s*([\s\S]*?)```/i, '$1');
+  const candidate = extractObject(unfenced);
+  if (!candidate) {
+    throw new AIParseError('AI response did not contain a JSON object', text, provider);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    try {
+      parsed = JSON.parse(removeTrailingCommas(candidate));
+    } catch (err) {
+      throw new AIParseError(
+        `AI response contained invalid JSON: ${(err as Error).message}`,
+        text,
+        provider
+      );
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AIParseError('AI response JSON is not an object', text, provider);
+  }
+  return parsed as Record<string, unknown>;
+}
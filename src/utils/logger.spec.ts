@@ -0,0 +1,53 @@
+import { createLogger } from './logger';
+
+describe('createLogger', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it('reports warnings by default outside production', () => {
+    process.env.NODE_ENV = 'development';
+    const handler = jest.fn();
+
+    createLogger({ handler }).warn('autofill.empty', 'No values');
+    createLogger({ handler }).info('autofill.completed', 'Done');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ level: 'warn', event: 'autofill.empty', message: 'No values' })
+    );
+  });
+
+  it('is silent by default in production', () => {
+    process.env.NODE_ENV = 'production';
+    const handler = jest.fn();
+
+    createLogger({ handler }).error('autofill.failed', 'Failed');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('is silent by default without a process global', () => {
+    const { process: nodeProcess } = globalThis as { process?: NodeJS.Process };
+    const handler = jest.fn();
+    delete (globalThis as { process?: NodeJS.Process }).process;
+    try {
+      createLogger({ handler }).error('autofill.failed', 'Failed');
+    } finally {
+      (globalThis as { process?: NodeJS.Process }).process = nodeProcess;
+    }
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('uses the configured level', () => {
+    process.env.NODE_ENV = 'production';
+    const handler = jest.fn();
+
+    createLogger({ level: 'debug', handler }).debug('cache.hit', 'Reused');
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ level: 'debug' }));
+  });
+});
@@ -0,0 +1,54 @@
+import type { AILogEvent, AILoggerConfig, AILogLevel, AIProviderType } from '../types';
+
+const LEVELS: AILogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+type EventLevel = AILogEvent['level'];
+
+export interface AILogDetails {
+  provider?: AIProviderType;
+  field?: string;
+  error?: unknown;
+  data?: Record<string, unknown>;
+}
+
+export type AILogger = Record<
+  EventLevel,
+  (event: string, message: string, details?: AILogDetails) => void
+>;
+
+function defaultLevel(): AILogLevel {
+  try {
+    // Spelled out in full so bundlers replace it at build time
+    return process.env.NODE_ENV === 'production' ? 'silent' : 'warn';
+  } catch {
+    // Browser builds that leave it in have no `process`; don't log there unasked
+    return 'silent';
+  }
+}
+
+function consoleHandler({ level, message, timestamp: _timestamp, ...details }: AILogEvent): void {
+  // eslint-disable-next-line no-console
+  console[level](`[react-hook-form-ai] ${message}`, details);
+}
+
+/**
+ * Create a logger that reports events at or above the configured level
+ */
+export function createLogger(config?: AILoggerConfig): AILogger {
+  const options = typeof config === 'string' ? { level: config } : config ?? {};
+  const threshold = LEVELS.indexOf(options.level ?? defaultLevel());
+  const handler = options.handler ?? consoleHandler;
+
+  const log = (level: EventLevel) =>
+    (event: string, message: string, details: AILogDetails = {}) => {
+      if (LEVELS.indexOf(level) > threshold) return;
+      handler({ level, event, message, ...details, timestamp: Date.now() });
+    };
+
+  return {
+    error: log('error'),
+    warn: log('warn'),
+    info: log('info'),
+    debug: log('debug'),
+  };
+}
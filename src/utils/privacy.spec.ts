@@ -0,0 +1,104 @@
+import { createPrivacyFilter, maskPII } from './privacy';
+
+describe('builtInPIIDetectors', () => {
+  const mask = (text: string) => maskPII(text).text;
+
+  it('masks emails', () => {
+    expect(mask('Write to ada.l+forms@example.co.uk')).toBe('Write to [email]');
+  });
+
+  it('masks card numbers that pass the Luhn check', () => {
+    expect(mask('Card 4111 1111 1111 1111')).toBe('Card [card]');
+    expect(mask('Card 4111 1111 1111 1112')).not.toContain('[card]');
+  });
+
+  it('masks IBANs with a valid checksum', () => {
+    expect(mask('IBAN DE89 3704 0044 0532 0130 00')).toBe('IBAN [iban]');
+    expect(mask('IBAN DE00 3704 0044 0532 0130 00')).not.toContain('[iban]');
+  });
+
+  it.each([
+    '+44 20 7946 0958',
+    '+1 (555) 123-4567',
+    '(030) 1234567',
+    '555-123-4567',
+    '555.123.4567',
+    '020 7946 0958',
+  ])('masks the phone number %s', phone => {
+    expect(mask(`Call ${phone} today`)).toBe('Call [phone] today');
+  });
+
+  it.each([
+    '1234567',
+    'Order 12345678',
+    '2024 2025 2026',
+    '2024-03-15',
+    '15.03.2024',
+    '1.234.567',
+    '1 234 567',
+  ])('leaves %s unchanged', text => {
+    expect(maskPII(text)).toEqual({ text, detected: false });
+  });
+});
+
+describe('createPrivacyFilter', () => {
+  const values = {
+    email: 'jon@gmail.con',
+    notes: 'Call me at 555-123-4567',
+    ssn: '123-45-6789',
+    card: 'Visa ending 1234',
+  };
+  const privacy = createPrivacyFilter(values, {
+    fields: { ssn: 'local-only', card: 'masked', password: 'never' },
+  });
+
+  it('masks detected PII in the context for remote providers', () => {
+    expect(privacy.context(false)).toEqual({
+      email: '[email]',
+      notes: 'Call me at [phone]',
+      card: '[redacted]',
+    });
+    expect(privacy.context(true)).toMatchObject({ email: 'jon@gmail.con', ssn: '123-45-6789' });
+  });
+
+  it("sends an allowed field's own value unmasked", () => {
+    expect(privacy.value('email', values.email, true)).toBe('jon@gmail.con');
+    expect(privacy.value('notes', 'Call me after lunch', false)).toBe('Call me after lunch');
+  });
+
+  it('keeps an allowed value with detected PII on the device', () => {
+    expect(privacy.value('email', values.email, false)).toBeNull();
+    expect(privacy.value('notes', values.notes, false)).toBeNull();
+    expect(privacy.value('notes', values.notes, true)).toBe('Call me at 555-123-4567');
+
+    const undetected = createPrivacyFilter(values, { detectPII: false });
+    expect(undetected.value('email', values.email, false)).toBe('jon@gmail.con');
+  });
+
+  it('does not send a value its policy would change', () => {
+    expect(privacy.value('card', values.card, true)).toBeNull();
+    expect(privacy.value('card', '', false)).toBe('');
+    expect(privacy.value('ssn', values.ssn, false)).toBeNull();
+    expect(privacy.value('ssn', values.ssn, true)).toBe('123-45-6789');
+    expect(privacy.value('password', 'hunter2', true)).toBeNull();
+  });
+
+  it('tells whether the context holds local-only or masked values', () => {
+    const plain = { name: 'Ada', ssn: 'AB 12 34 56 C', card: 'Visa ending 1234' };
+    const fields = { ssn: 'local-only', card: 'masked' } as const;
+
+    expect(createPrivacyFilter(plain, { fields }).restricted()).toBe(true);
+    expect(createPrivacyFilter({ ...plain, ssn: '', card: '' }, { fields }).restricted()).toBe(false);
+    expect(createPrivacyFilter(plain, { fields: { card: 'never' } }).restricted()).toBe(false);
+  });
+
+  it('tells whether the context or a value holds detected PII', () => {
+    expect(privacy.restricted()).toBe(true);
+    expect(createPrivacyFilter({ contact: { emails: ['ada@example.com'] } }).restricted()).toBe(true);
+
+    const clean = createPrivacyFilter({ name: 'Ada' });
+    expect(clean.restricted()).toBe(false);
+    expect(clean.restricted('Ada Lovelace')).toBe(false);
+    expect(clean.restricted('Card 4111 1111 1111 1111')).toBe(true);
+  });
+});
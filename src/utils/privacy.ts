@@ -0,0 +1,249 @@
+import type {
+  AIFieldPrivacy,
+  AIPIIDetector,
+  AIPrivacyOptions,
+  AIProvider,
+} from '../types';
+
+const REDACTED = '[redacted]';
+
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanChecksum(match: string): boolean {
+  const iban = match.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  // Move the country code and check digits to the end, letters become 10-35
+  const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, c =>
+    String(c.charCodeAt(0) - 55)
+  );
+  let remainder = 0;
+  for (const char of numeric) {
+    remainder = (remainder * 10 + Number(char)) % 97;
+  }
+  return remainder === 1;
+}
+
+// Dates and grouped amounts have the shape of a phone number but are not personal data
+const DATE_SHAPE = /^(?:\d{4}-\d{2}-\d{2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+const GROUPED_AMOUNT = /^\d{1,3}([.\s])\d{3}(?:\1\d{3})*$/;
+
+function isPhoneNumber(match: string): boolean {
+  const text = match.trim();
+  const digits = text.replace(/\D/g, '').length;
+  if (digits < 7 || digits > 15 || DATE_SHAPE.test(text) || GROUPED_AMOUNT.test(text)) {
+    return false;
+  }
+  // Bare runs of digits are prices, IDs and years; phone numbers have a country
+  // code, an area code in brackets, dashes or dots, or a leading trunk zero
+  return /^[+(]/.test(text) || /\d[.-]\d/.test(text) || /^0\d*\s\d/.test(text);
+}
+
+/**
+ * Built-in detectors, in the order they are applied. Checksummed formats
+ * come before phone numbers so their digits are not mistaken for one.
+ */
+export const builtInPIIDetectors: AIPIIDetector[] = [
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanChecksum,
+  },
+  {
+    name: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhn,
+  },
+  {
+    name: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}/g,
+    validate: isPhoneNumber,
+  },
+];
+
+/**
+ * Replace everything the detectors match. Returns the masked text and
+ * whether anything was found.
+ */
+export function maskPII(
+  text: string,
+  detectors: AIPIIDetector[] = builtInPIIDetectors
+): { text: string; detected: boolean } {
+  let detected = false;
+  let masked = text;
+
+  for (const detector of detectors) {
+    masked = masked.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(match)) return match;
+      detected = true;
+      return detector.mask ? detector.mask(match) : `[${detector.name}]`;
+    });
+  }
+
+  return { text: masked, detected };
+}
+
+/**
+ * Chrome's built-in model runs in the browser; other providers only
+ * when their config says so
+ */
+export function isOnDeviceProvider(config: AIProvider): boolean {
+  return config.onDevice ?? config.type === 'chrome';
+}
+
+/**
+ * The policy for a dotted path, inherited from the closest configured parent
+ */
+function policyFor(fields: Record<string, AIFieldPrivacy>, path: string): AIFieldPrivacy {
+  const segments = path.split('.');
+  for (let i = segments.length; i > 0; i--) {
+    const policy = fields[segments.slice(0, i).join('.')];
+    if (policy) return policy;
+  }
+  return 'allow';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+const OMIT = Symbol('omit');
+
+export interface PrivacyFilter {
+  /** The form context a provider may see */
+  context(onDevice: boolean): Record<string, any>;
+  /** A field's own value for a provider, or `null` when it must not be sent as is */
+  value(field: string, value: string, onDevice: boolean): string | null;
+  /**
+   * Whether the form context, or `value` when given, holds values under a
+   * `local-only` or `masked` policy or PII the detectors find
+   */
+  restricted(value?: string): boolean;
+}
+
+/**
+ * Whether `path` leads to a value other than empty in `values`
+ */
+function hasValueAt(values: Record<string, any>, path: string): boolean {
+  let value: any = values;
+  for (const segment of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return false;
+    value = value[segment];
+  }
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Whether any string in `value`, at any depth, contains detected PII
+ */
+function containsPII(value: unknown, detectors: AIPIIDetector[]): boolean {
+  if (typeof value === 'string') return maskPII(value, detectors).detected;
+  if (Array.isArray(value)) return value.some(item => containsPII(item, detectors));
+  if (isPlainObject(value)) return Object.values(value).some(item => containsPII(item, detectors));
+  return false;
+}
+
+/**
+ * Apply the privacy policy to form values before they are sent to a provider
+ */
+export function createPrivacyFilter(
+  formContext: Record<string, any>,
+  options: AIPrivacyOptions = {}
+): PrivacyFilter {
+  const fields = options.fields ?? {};
+  const detectPII = options.detectPII ?? true;
+  const detectors = options.detectors ?? builtInPIIDetectors;
+  const contexts = new Map<boolean, Record<string, any>>();
+
+  const filter = (
+    value: unknown,
+    path: string,
+    inherited: AIFieldPrivacy,
+    onDevice: boolean
+  ): unknown => {
+    const policy = (path && fields[path]) || inherited;
+
+    if (policy === 'never' || (policy === 'local-only' && !onDevice)) {
+      return OMIT;
+    }
+    if (policy === 'local-only') {
+      return value;
+    }
+
+    const child = (key: string | number) => (path ? `${path}.${key}` : String(key));
+    if (Array.isArray(value)) {
+      return value
+        .map((item, index) => filter(item, child(index), policy, onDevice))
+        .filter(item => item !== OMIT);
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const filtered = filter(item, child(key), policy, onDevice);
+        if (filtered !== OMIT) result[key] = filtered;
+      }
+      return result;
+    }
+
+    if (policy === 'masked') {
+      if (value === null || value === undefined || value === '') return value;
+      if (typeof value !== 'string') return REDACTED;
+      const masked = maskPII(value, detectors);
+      return masked.detected ? masked.text : REDACTED;
+    }
+    if (typeof value === 'string' && detectPII && !onDevice) {
+      return maskPII(value, detectors).text;
+    }
+    return value;
+  };
+
+  let contextRestricted: boolean | undefined;
+
+  return {
+    restricted(value) {
+      contextRestricted ??=
+        Object.entries(fields).some(
+          ([path, policy]) =>
+            (policy === 'local-only' || policy === 'masked') && hasValueAt(formContext, path)
+        ) || containsPII(formContext, detectors);
+      return contextRestricted || (value !== undefined && containsPII(value, detectors));
+    },
+    context(onDevice) {
+      let context = contexts.get(onDevice);
+      if (!context) {
+        context = filter(formContext, '', 'allow', onDevice) as Record<string, any>;
+        contexts.set(onDevice, context);
+      }
+      return context;
+    },
+    value(field, value, onDevice) {
+      const policy = policyFor(fields, field);
+      // The value is what the request is about, so it is sent as typed or not at all;
+      // a provider asked about `[email]` would answer with a placeholder
+      if (policy === 'allow') {
+        return detectPII && !onDevice && maskPII(value, detectors).detected ? null : value;
+      }
+      return filter(value, field, policy, onDevice) === value ? value : null;
+    },
+  };
+}
@@ -0,0 +1,303 @@
+import type {
+  AIAutofillPromptInput,
+  AIAutofillCorrection,
+  AIExtractPromptInput,
+  AIFieldDescriptor,
+  AIPromptOptions,
+  AISuggestPromptInput,
+  AISummaryPromptInput,
+  AITranslatePromptInput,
+  SummaryOptions,
+  SummaryStyle,
+} from '../types';
+import { describeCorrectionsForPrompt, describeFieldsForPrompt } from './fieldSchema';
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are an intelligent form assistant that helps users fill out web forms. Follow the instructions in each request exactly and respond with only the requested output.';
+
+export interface AIPrompt {
+  system: string;
+  user: string;
+}
+
+/**
+ * A language tag with its English name, e.g. `German (de-DE)`
+ */
+export function describeLocale(locale: string): string {
+  try {
+    // Intl.DisplayNames is missing from older browsers and the ES2017 typings
+    const DisplayNames = (Intl as any).DisplayNames;
+    const name = DisplayNames && new DisplayNames(['en'], { type: 'language' }).of(locale);
+    return name && name !== locale ? `${name.replace(/ \(.*\)$/, '')} (${locale})` : locale;
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * The system prompt, asking for the configured locale when there is one
+ */
+function systemPromptFor(prompts?: AIPromptOptions): string {
+  const system = prompts?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+  return prompts?.locale
+    ? `${system}\nWrite all text you generate in ${describeLocale(prompts.locale)}. Keep email addresses, URLs, codes and allowed option values unchanged.`
+    : system;
+}
+
+export function defaultSuggestTemplate({
+  field,
+  currentValue,
+  formContext,
+}: AISuggestPromptInput): string {
+  return `You are assisting with form completion. The user is filling out a field named "${field.name}".
+
+Field: ${describeFieldsForPrompt([field]).slice(2)}
+Current value: "${currentValue}"
+Form context: ${JSON.stringify(formContext, null, 2)}
+
+Based on the field, current value, and form context, suggest an improved, corrected, or realistic completion for this field.
+
+Rules:
+- Respond with ONLY the suggested value
+- No explanations or additional text
+- If the current value is already good, return it as-is
+- Make sure the suggestion is appropriate for the field and follows its instructions, if any
+
+Suggested value:`;
+}
+
+export function defaultAutofillTemplate({
+  fields,
+  formContext,
+  corrections,
+}: AIAutofillPromptInput): string {
+  return `Generate realistic example values for a form.
+
+Form fields:
+${describeFieldsForPrompt(fields)}
+
+Context: ${JSON.stringify(formContext, null, 2)}
+${corrections.length ? `
+These previously generated values failed validation. Generate corrected values for them:
+${describeCorrectionsForPrompt(corrections)}
+` : ''}
+Generate realistic, appropriate values for each field based on the field names and context.
+Respect each field's type, allowed options, validation rules and instructions.
+Use JSON numbers for number fields, true/false for boolean fields, ISO 8601 (YYYY-MM-DD) for dates and arrays for array fields.
+Output ONLY a valid JSON object with these exact field names as keys.
+
+Example format:
+{"name": "Alice Johnson", "email": "alice@example.com", "age": 29}
+
+JSON object:`;
+}
+
+export function defaultExtractTemplate({
+  text,
+  fields,
+  formContext,
+}: AIExtractPromptInput): string {
+  return `Extract values for a form from the text between the --- lines.
+
+Form fields:
+${describeFieldsForPrompt(fields)}
+
+Current form values: ${JSON.stringify(formContext, null, 2)}
+
+---
+${text}
+---
+
+Only use information stated in the text; never guess or invent values.
+Respect each field's type, allowed options, validation rules and instructions.
+Use JSON numbers for number fields, true/false for boolean fields, ISO 8601 (YYYY-MM-DD) for dates and arrays for array fields.
+Output ONLY a valid JSON object with these exact field names as keys. For each field give:
+- "value": the extracted value, or null if the text does not contain it
+- "confidence": a number from 0 to 1 for how certain the value is
+- "source": the exact passage of the text the value was taken from, or null
+
+Example format:
+{"email": {"value": "alice@example.com", "confidence": 0.95, "source": "reach me at alice@example.com"}}
+
+JSON object:`;
+}
+
+/**
+ * Render form values as `- Label: value` lines, in the order of `fields`
+ */
+export function describeFormValues(
+  values: Record<string, any>,
+  fields: AIFieldDescriptor[]
+): string {
+  return fields
+    .map(field => {
+      const value = field.name.split('.').reduce<any>((parent, key) => parent?.[key], values);
+      if (value === undefined || value === null || value === '') return null;
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return `- ${field.label || field.name}: ${text}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+const SUMMARY_STYLES: Record<SummaryStyle, string> = {
+  bullet: 'Write a list of key points, one per line, each starting with "- ".',
+  short: 'Write one or two sentences.',
+  long: 'Write one or two paragraphs.',
+};
+
+export function defaultSummaryTemplate({
+  values,
+  fields,
+  style,
+  includeDetails,
+}: AISummaryPromptInput): string {
+  return `Summarize the following form submission for a human reader.
+
+Form values:
+${describeFormValues(values, fields)}
+
+${SUMMARY_STYLES[style]}
+${includeDetails
+    ? 'Mention every filled-in field and its value.'
+    : 'Focus on the most important information and leave out minor details.'}
+Only use information from the form; do not invent anything.
+Respond with ONLY the summary.
+
+Summary:`;
+}
+
+export function defaultTranslateTemplate({
+  text,
+  field,
+  targetLocale,
+  sourceLocale,
+}: AITranslatePromptInput): string {
+  const target = describeLocale(targetLocale);
+  return `Translate the text between the --- lines ${sourceLocale ? `from ${describeLocale(sourceLocale)} ` : ''}into ${target}. It was entered in the form field "${field.label || field.name}".
+
+---
+${text}
+---
+
+Rules:
+- Respond with ONLY the translation
+- Keep names, email addresses, URLs and numbers unchanged
+- If the text is already in ${target}, return it as-is
+
+Translation:`;
+}
+
+/**
+ * The field with its instructions from `fieldInstructions`, unless it has its own
+ */
+export function withInstructions(
+  field: AIFieldDescriptor,
+  prompts?: AIPromptOptions
+): AIFieldDescriptor {
+  const instructions = field.instructions ?? prompts?.fieldInstructions?.[field.name];
+  return instructions ? { ...field, instructions } : field;
+}
+
+export function buildSuggestPrompt(
+  field: AIFieldDescriptor,
+  currentValue: string,
+  formContext: Record<string, any>,
+  prompts?: AIPromptOptions
+): AIPrompt {
+  const template = prompts?.suggestTemplate ?? defaultSuggestTemplate;
+  return {
+    system: systemPromptFor(prompts),
+    user: template({ field: withInstructions(field, prompts), currentValue, formContext }),
+  };
+}
+
+export function buildAutofillPrompt(
+  fields: AIFieldDescriptor[],
+  formContext: Record<string, any>,
+  corrections: AIAutofillCorrection[] = [],
+  prompts?: AIPromptOptions
+): AIPrompt {
+  const template = prompts?.autofillTemplate ?? defaultAutofillTemplate;
+  return {
+    system: systemPromptFor(prompts),
+    user: template({
+      fields: fields.map(field => withInstructions(field, prompts)),
+      formContext,
+      corrections,
+    }),
+  };
+}
+
+export function buildExtractPrompt(
+  text: string,
+  fields: AIFieldDescriptor[],
+  formContext: Record<string, any>,
+  prompts?: AIPromptOptions
+): AIPrompt {
+  const template = prompts?.extractTemplate ?? defaultExtractTemplate;
+  return {
+    system: systemPromptFor(prompts),
+    user: template({
+      text,
+      fields: fields.map(field => withInstructions(field, prompts)),
+      formContext,
+    }),
+  };
+}
+
+export function buildSummaryPrompt(
+  values: Record<string, any>,
+  fields: AIFieldDescriptor[],
+  options: SummaryOptions = {},
+  prompts?: AIPromptOptions
+): AIPrompt {
+  const template = prompts?.summaryTemplate ?? defaultSummaryTemplate;
+  return {
+    system: systemPromptFor(prompts),
+    user: template({
+      values,
+      fields,
+      style: options.style ?? 'short',
+      includeDetails: options.includeDetails ?? false,
+    }),
+  };
+}
+
+export function buildTranslatePrompt(
+  text: string,
+  field: AIFieldDescriptor,
+  targetLocale: string,
+  sourceLocale?: string,
+  prompts?: AIPromptOptions
+): AIPrompt {
+  const template = prompts?.translateTemplate ?? defaultTranslateTemplate;
+  return {
+    // The form's locale would contradict the target language
+    system: prompts?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+    user: template({ text, field: withInstructions(field, prompts), targetLocale, sourceLocale }),
+  };
+}
+
+/**
+ * Layer prompt options; later ones win, field instructions are merged
+ */
+export function mergePromptOptions(
+  ...layers: Array<AIPromptOptions | undefined>
+): AIPromptOptions | undefined {
+  const defined = layers.filter((layer): layer is AIPromptOptions => !!layer);
+  if (defined.length === 0) return undefined;
+
+  return defined.reduce<AIPromptOptions>((merged, layer) => ({
+    systemPrompt: layer.systemPrompt ?? merged.systemPrompt,
+    suggestTemplate: layer.suggestTemplate ?? merged.suggestTemplate,
+    autofillTemplate: layer.autofillTemplate ?? merged.autofillTemplate,
+    extractTemplate: layer.extractTemplate ?? merged.extractTemplate,
+    summaryTemplate: layer.summaryTemplate ?? merged.summaryTemplate,
+    translateTemplate: layer.translateTemplate ?? merged.translateTemplate,
+    locale: layer.locale ?? merged.locale,
+    fieldInstructions: merged.fieldInstructions || layer.fieldInstructions
+      ? { ...merged.fieldInstructions, ...layer.fieldInstructions }
+      : undefined,
+  }), {});
+}
@@ -0,0 +1,228 @@
+import { AIError, AIHTTPError } from '../errors';
+import { executeAIProviders } from '../aiProviders';
+import type { AIProviderExecutor } from '../types';
+import { createAbortError } from './abort';
+import { createLogger } from './logger';
+import {
+  CircuitBreaker,
+  getCircuitBreaker,
+  getCircuitBreakerState,
+  getRetryDelay,
+  resetCircuitBreakers,
+  withTimeout,
+} from './resilience';
+
+const serverError = new AIError('down', 'server', { provider: 'openai' });
+
+describe('getRetryDelay', () => {
+  const rateLimited = (retryAfterMs: number) =>
+    new AIHTTPError('slow down', 429, { provider: 'openai', retryAfterMs });
+
+  it('waits as long as Retry-After asks', () => {
+    expect(getRetryDelay(0, rateLimited(2000), { maxRetryDelayMs: 5000 })).toBe(2000);
+  });
+
+  it('gives up when Retry-After is above the maximum', () => {
+    expect(getRetryDelay(0, rateLimited(60000), { maxRetryDelayMs: 5000 })).toBeNull();
+  });
+
+  it('backs off exponentially up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+
+    expect(getRetryDelay(0, serverError, { retryDelayMs: 100 })).toBeCloseTo(100);
+    expect(getRetryDelay(3, serverError, { retryDelayMs: 100 })).toBeCloseTo(800);
+    expect(getRetryDelay(10, serverError, { retryDelayMs: 100, maxRetryDelayMs: 1000 })).toBeCloseTo(1000);
+
+    jest.restoreAllMocks();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 2, cooldownMs: 1000 };
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker();
+    breaker.recordFailure(serverError, options);
+    breaker.recordFailure(serverError, options);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens after consecutive transient failures', () => {
+    expect(breaker.getState()).toEqual({ state: 'open', failures: 2, retryAt: now + 1000 });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('does not count rejected requests as failures', () => {
+    const closed = new CircuitBreaker();
+    closed.recordFailure(new AIError('bad key', 'auth'), { failureThreshold: 1 });
+
+    expect(closed.getState().state).toBe('closed');
+  });
+
+  it('lets a single trial through when half-open', () => {
+    now += 1000;
+
+    expect(breaker.getState().state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toEqual({ state: 'closed', failures: 0, retryAt: null });
+  });
+
+  it('reopens when the trial fails', () => {
+    now += 1000;
+    breaker.tryAcquire();
+    breaker.recordFailure(serverError, options);
+
+    expect(breaker.getState()).toMatchObject({ state: 'open', retryAt: now + 1000 });
+  });
+
+  it('lets another trial through after an aborted one is released', () => {
+    now += 1000;
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.getState().state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
+
+describe('circuit breakers of provider configs', () => {
+  afterEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('are separate for each endpoint and model', () => {
+    const local = { type: 'openai', apiUrl: 'http://localhost:8000/v1' } as const;
+    getCircuitBreaker(local).recordFailure(serverError, { failureThreshold: 1 });
+
+    expect(getCircuitBreakerState(local).state).toBe('open');
+    expect(getCircuitBreakerState('openai').state).toBe('closed');
+    expect(getCircuitBreakerState({ ...local, model: 'gpt-4o' }).state).toBe('closed');
+    expect(getCircuitBreaker({ ...local })).toBe(getCircuitBreaker(local));
+  });
+
+  it("open at each caller's own threshold", () => {
+    const breaker = getCircuitBreaker({ type: 'openai' });
+    breaker.recordFailure(serverError, { failureThreshold: 3 });
+    breaker.recordFailure(serverError, { failureThreshold: 3 });
+    expect(breaker.getState().state).toBe('closed');
+
+    breaker.recordFailure(serverError, { failureThreshold: 5 });
+    expect(breaker.getState().state).toBe('closed');
+    breaker.recordFailure(serverError, { failureThreshold: 3 });
+    expect(breaker.getState().state).toBe('open');
+  });
+
+  it('are reset by provider type', () => {
+    getCircuitBreaker({ type: 'openai', model: 'gpt-4o' }).recordFailure(serverError, { failureThreshold: 1 });
+    getCircuitBreaker({ type: 'anthropic' }).recordFailure(serverError, { failureThreshold: 1 });
+
+    resetCircuitBreakers('openai');
+
+    expect(getCircuitBreakerState({ type: 'openai', model: 'gpt-4o' }).state).toBe('closed');
+    expect(getCircuitBreakerState('anthropic').state).toBe('open');
+  });
+});
+
+describe('executeAIProviders with a half-open circuit breaker', () => {
+  afterEach(() => {
+    resetCircuitBreakers();
+    jest.restoreAllMocks();
+  });
+
+  it('releases the trial when the request is aborted', async () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const controller = new AbortController();
+    const executor: AIProviderExecutor = {
+      suggestValue: async () => {
+        throw serverError;
+      },
+      autofill: async () => null,
+      checkAvailability: async () => ({ available: true, status: 'readily', needsDownload: false }),
+    };
+    const providers = [
+      { type: 'test', executor, circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 } },
+    ];
+    const suggest = (signal?: AbortSignal) =>
+      executeAIProviders(providers, ['test'], false, provider => provider.suggestValue('city', '', {}), {
+        signal,
+        logger: createLogger('silent'),
+      });
+
+    await suggest();
+    expect(getCircuitBreakerState('test').state).toBe('open');
+
+    now += 1000;
+    executor.suggestValue = async () => {
+      controller.abort();
+      throw createAbortError();
+    };
+    await expect(suggest(controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+
+    executor.suggestValue = async () => ({ suggestion: 'Berlin', provider: 'test' });
+    await expect(suggest()).resolves.toMatchObject({ result: { suggestion: 'Berlin' }, provider: 'test' });
+    expect(getCircuitBreakerState('test').state).toBe('closed');
+  });
+});
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects with a timeout error when the call ignores the signal', async () => {
+    const call = withTimeout(() => new Promise(() => undefined), 100, undefined, 'openai');
+    jest.advanceTimersByTime(100);
+
+    await expect(call).rejects.toMatchObject({ code: 'timeout', provider: 'openai', retryable: true });
+  });
+
+  it('rejects with the timeout rather than the abort error it causes', async () => {
+    let callSignal: AbortSignal | undefined;
+    const call = withTimeout(
+      signal =>
+        new Promise((_, reject) => {
+          callSignal = signal;
+          signal?.addEventListener('abort', () => reject(createAbortError()));
+        }),
+      100,
+      undefined,
+      'openai'
+    );
+    jest.advanceTimersByTime(100);
+
+    await expect(call).rejects.toMatchObject({ name: 'AIError', code: 'timeout' });
+    expect(callSignal?.aborted).toBe(true);
+  });
+
+  it('passes an abort from the caller through', async () => {
+    const controller = new AbortController();
+    const call = withTimeout(
+      signal =>
+        new Promise((_, reject) => {
+          signal?.addEventListener('abort', () => reject(createAbortError()));
+        }),
+      100,
+      controller.signal,
+      'openai'
+    );
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
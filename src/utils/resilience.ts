@@ -0,0 +1,222 @@
+import { AIError, AIHTTPError } from '../errors';
+import type {
+  AICircuitBreakerOptions,
+  AICircuitBreakerState,
+  AIProvider,
+  AIProviderType,
+  AIResilienceOptions,
+} from '../types';
+import { createAbortError, throwIfAborted } from './abort';
+
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 10000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * Provider settings win over the defaults from `AIFormProvider`
+ */
+export function resolveResilience(
+  defaults: AIResilienceOptions | undefined,
+  config: AIResilienceOptions
+): AIResilienceOptions {
+  const pick = <K extends keyof AIResilienceOptions>(key: K) => config[key] ?? defaults?.[key];
+  return {
+    timeoutMs: pick('timeoutMs'),
+    retries: pick('retries'),
+    retryDelayMs: pick('retryDelayMs'),
+    maxRetryDelayMs: pick('maxRetryDelayMs'),
+    circuitBreaker: pick('circuitBreaker'),
+  };
+}
+
+/**
+ * Run `run` with a signal that is aborted after `timeoutMs`. The call
+ * rejects with a `timeout` AIError even if `run` ignores the signal.
+ */
+export async function withTimeout<T>(
+  run: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  provider: AIProviderType
+): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return run(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  if (signal?.aborted) controller.abort();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject before aborting so the timeout wins over the resulting AbortError
+      reject(new AIError(`${provider} did not respond within ${timeoutMs}ms`, 'timeout', { provider }));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with
+ * full jitter, or the provider's `Retry-After`. Returns `null` when the
+ * provider asks to wait longer than `maxRetryDelayMs`.
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: AIError,
+  options: AIResilienceOptions
+): number | null {
+  const base = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const max = options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+
+  if (error instanceof AIHTTPError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= max ? error.retryAfterMs : null;
+  }
+
+  return Math.random() * Math.min(max, base * 2 ** attempt);
+}
+
+/**
+ * Resolve after `ms`, or reject with an AbortError when `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Opens after `failureThreshold` consecutive transient failures and skips
+ * the provider for `cooldownMs`, then lets one trial request through. The
+ * failures are the endpoint's; the thresholds are those of each caller.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private retryAt: number | null = null;
+  private trialInFlight = false;
+
+  getState(now = Date.now()): AICircuitBreakerState {
+    if (this.retryAt === null) {
+      return { state: 'closed', failures: this.failures, retryAt: null };
+    }
+    return {
+      state: now >= this.retryAt ? 'half-open' : 'open',
+      failures: this.failures,
+      retryAt: this.retryAt,
+    };
+  }
+
+  /**
+   * Whether a request may be sent; in `half-open` only one at a time
+   */
+  tryAcquire(): boolean {
+    const { state } = this.getState();
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.retryAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: AIError, options: AICircuitBreakerOptions = {}): void {
+    const wasTrial = this.trialInFlight;
+
+    // The provider responded; bad credentials or requests are not outages
+    if (!error.retryable) {
+      this.recordSuccess();
+      return;
+    }
+
+    this.trialInFlight = false;
+    this.failures++;
+    if (wasTrial || this.failures >= (options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      this.retryAt = Date.now() + (options.cooldownMs ?? DEFAULT_COOLDOWN_MS);
+    }
+  }
+
+  /** Release a half-open trial that ended without a verdict (e.g. aborted) */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+type CircuitBreakerTarget = AIProviderType | Pick<AIProvider, 'type' | 'apiUrl' | 'model'>;
+
+// Configs of one type can reach different servers or models, which fail independently
+const breakerKey = (target: CircuitBreakerTarget): string =>
+  typeof target === 'string'
+    ? JSON.stringify([target, '', ''])
+    : JSON.stringify([target.type, target.apiUrl ?? '', target.model ?? '']);
+
+const breakers = new Map<string, { provider: AIProviderType; breaker: CircuitBreaker }>();
+
+/**
+ * The breaker of a provider config's endpoint and model, shared by every
+ * config and form that uses them
+ */
+export function getCircuitBreaker(
+  config: Pick<AIProvider, 'type' | 'apiUrl' | 'model'>
+): CircuitBreaker {
+  const key = breakerKey(config);
+  let entry = breakers.get(key);
+  if (!entry) {
+    entry = { provider: config.type, breaker: new CircuitBreaker() };
+    breakers.set(key, entry);
+  }
+  return entry.breaker;
+}
+
+/**
+ * Circuit breaker state of a provider config, or of a provider type at its
+ * default endpoint and model, for diagnostics
+ */
+export function getCircuitBreakerState(provider: CircuitBreakerTarget): AICircuitBreakerState {
+  return (
+    breakers.get(breakerKey(provider))?.breaker.getState() ?? {
+      state: 'closed',
+      failures: 0,
+      retryAt: null,
+    }
+  );
+}
+
+/**
+ * Close the circuit breaker of a provider config, every breaker of a
+ * provider type, or all breakers
+ */
+export function resetCircuitBreakers(provider?: CircuitBreakerTarget): void {
+  if (provider === undefined) {
+    breakers.clear();
+  } else if (typeof provider === 'string') {
+    for (const [key, entry] of breakers) {
+      if (entry.provider === provider) breakers.delete(key);
+    }
+  } else {
+    breakers.delete(breakerKey(provider));
+  }
+}
@@ -0,0 +1,73 @@
+import type { AITokenHandler } from '../types';
+
+async function* readChunks(stream: ReadableStream): AsyncGenerator<unknown> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a stream of text chunks, such as Chrome's `promptStreaming`.
+ * Handles both delta chunks and (older Chrome) cumulative chunks.
+ */
+export async function readTextStream(
+  stream: ReadableStream,
+  onToken: AITokenHandler
+): Promise<string> {
+  let text = '';
+  for await (const chunk of readChunks(stream)) {
+    const value = String(chunk);
+    const token = value.startsWith(text) && text.length > 0 ? value.slice(text.length) : value;
+    if (!token) continue;
+    text += token;
+    onToken(token, text);
+  }
+  return text;
+}
+
+/**
+ * Read a fetch response body line by line
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of readChunks(body)) {
+    buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) yield line;
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/**
+ * Read the payloads of a Server-Sent Events or newline-delimited JSON
+ * response. SSE `data:` payloads are yielded as-is; the `[DONE]`
+ * sentinel ends the stream.
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const isSSE = (response.headers.get('Content-Type') || '').includes('text/event-stream');
+
+  for await (const line of readLines(response.body)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (isSSE) {
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+      yield data;
+    } else {
+      yield trimmed;
+    }
+  }
+}
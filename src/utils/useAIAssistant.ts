@@ -1,23 +1,121 @@
 import { useOptionalAIFormContext } from '../AIFormProvider';
-import { executeAIProviders } from '../aiProviders';
-import type { AIProvider, AIProviderType } from '../types';
+import { createAIProvider, executeAIProviders, SKIP_PROVIDER } from '../aiProviders';
+import { AIHTTPError, toAIError } from '../errors';
+import type {
+  AIAutofillCorrection,
+  AIAutofillData,
+  AIAvailability,
+  AICacheOptions,
+  AIExtractData,
+  AIExtractInput,
+  AIFallbackPolicy,
+  AIFieldDescriptor,
+  AILoggerConfig,
+  AIPrivacyOptions,
+  AIPromptOptions,
+  AIProofreadResult,
+  AIProvider,
+  AIProviderExecutor,
+  AIProviderType,
+  AIRequestOptions,
+  AIResponse,
+  AIRewriteOptions,
+  AISuggestOptions,
+  AITokenHandler,
+  AIWriteOptions,
+  SummaryOptions,
+} from '../types';
 import { useMemo } from 'react';
+import { isAbortError, throwIfAborted } from './abort';
+import { getAICache, hashCacheKey, resolveCacheOptions } from './cache';
+import { readExtractText, toExtractData } from './extract';
+import { toFieldDescriptor } from './fieldSchema';
+import { parseJSONObject } from './json';
+import type { AILogger } from './logger';
+import { createLogger } from './logger';
+import type { PrivacyFilter } from './privacy';
+import { createPrivacyFilter, isOnDeviceProvider } from './privacy';
+import type { AIPrompt } from './prompts';
+import {
+  buildAutofillPrompt,
+  buildExtractPrompt,
+  buildSuggestPrompt,
+  buildSummaryPrompt,
+  mergePromptOptions,
+  withInstructions,
+} from './prompts';
+import { useStableFunctions } from './useStableFunctions';
+
+interface CacheRequestOptions {
+  /** Set `false` to skip cached responses; the fresh response is cached */
+  cache?: boolean;
+}
+
+interface AutofillRequestOptions extends AIRequestOptions, CacheRequestOptions {
+  onDownloadProgress?: (progress: number) => void;
+  /** Values from a previous attempt that failed validation */
+  corrections?: AIAutofillCorrection[];
+  /** Prompt overrides for this call, layered over the configured ones */
+  prompts?: AIPromptOptions;
+}
+
+interface ExtractRequestOptions extends AIRequestOptions {
+  onDownloadProgress?: (progress: number) => void;
+  /** Prompt overrides for this call, layered over the configured ones */
+  prompts?: AIPromptOptions;
+}
+
+interface SummaryRequestOptions extends AIRequestOptions, SummaryOptions {
+  onDownloadProgress?: (progress: number) => void;
+  /** Prompt overrides for this call, layered over the configured ones */
+  prompts?: AIPromptOptions;
+}
+
+interface SuggestionRequestOptions extends AISuggestOptions, CacheRequestOptions {
+  /** Ask only this provider instead of the execution order */
+  provider?: AIProviderType;
+}
 
-type AutofillData = Record<string, string>;
+interface TextTaskRequestOptions extends AIRequestOptions {
+  onDownloadProgress?: (progress: number) => void;
+  /** Ask only this provider instead of the execution order */
+  provider?: AIProviderType;
+}
+
+interface TranslateRequestOptions extends TextTaskRequestOptions {
+  /** The text's language; detected when omitted */
+  sourceLocale?: string;
+}
+
+interface RewriteRequestOptions extends TextTaskRequestOptions, Pick<AIRewriteOptions, 'tone' | 'length'> {}
+
+interface WriteRequestOptions extends TextTaskRequestOptions, Pick<AIWriteOptions, 'tone' | 'length'> {}
 
 interface AIAssistantOptions {
   enabled?: boolean;
-  formContext?: Record<string, any>;
+  /** Form values sent as context, or a function that reads them when a request starts */
+  formContext?: Record<string, any> | (() => Record<string, any>);
   apiUrl?: string;
   providers?: AIProvider[];
   executionOrder?: AIProviderType[];
-  fallbackOnError?: boolean;
+  fallbackOnError?: AIFallbackPolicy;
+  logger?: AILoggerConfig;
+  /** Override the privacy policy from AIFormProvider */
+  privacy?: AIPrivacyOptions;
+  /** Prompt overrides, layered over the ones from AIFormProvider */
+  prompts?: AIPromptOptions;
+  /** Override the locale from AIFormProvider */
+  locale?: string;
+  /** Override response caching from AIFormProvider */
+  cache?: boolean | AICacheOptions;
 }
 
 /**
  * AI Assistant Hook — uses configured providers from AIFormProvider
  * or falls back to legacy Chrome AI + server setup.
- * Local options override provider context.
+ * Local options override provider context. When every provider fails,
+ * calls reject with the last provider's `AIError`. Form values are filtered
+ * by the privacy policy separately for on-device and remote providers.
  */
 export function useAIAssistant({
   enabled = true,
@@ -26,6 +124,11 @@ export function useAIAssistant({
   providers: localProviders,
   executionOrder: localOrder,
   fallbackOnError: localFallback,
+  logger: localLogger,
+  privacy: localPrivacy,
+  prompts: localPrompts,
+  locale: localLocale,
+  cache: localCache,
 }: AIAssistantOptions = {}) {
   const providerContext = useOptionalAIFormContext();
 
@@ -35,37 +138,214 @@ export function useAIAssistant({
       providers: localProviders ?? providerContext?.providers,
       executionOrder: localOrder ?? providerContext?.executionOrder,
       fallbackOnError: localFallback ?? providerContext?.fallbackOnError ?? true,
+      resilience: providerContext?.resilience,
+      privacy: localPrivacy ?? providerContext?.privacy,
+      // A `locale` option wins over one set in the prompts at the same level
+      prompts: mergePromptOptions(
+        providerContext?.prompts,
+        providerContext?.locale ? { locale: providerContext.locale } : undefined,
+        localPrompts,
+        localLocale ? { locale: localLocale } : undefined
+      ),
     };
-  }, [localProviders, localOrder, localFallback, providerContext]);
+  }, [localProviders, localOrder, localFallback, localPrivacy, localPrompts, localLocale, providerContext]);
+
+  const loggerConfig = localLogger ?? providerContext?.logger;
+  const logger = useMemo(() => createLogger(loggerConfig), [loggerConfig]);
+
+  const readFormContext = () => (typeof formContext === 'function' ? formContext() : formContext);
+
+  const cacheConfig = localCache ?? providerContext?.cache;
+  const cacheOptions = useMemo(() => resolveCacheOptions(cacheConfig), [cacheConfig]);
+
+  // ------------------------------------------
+  // Response Cache
+  // ------------------------------------------
+  /**
+   * Reuse a provider response for the same request. Responses are cached
+   * under the operation, the providers asked and a hash of everything that
+   * goes into the prompt; only responses from configured providers are stored.
+   * Responses to `restricted` requests, with `local-only` or `masked` values
+   * or detected PII, stay in memory.
+   */
+  async function withCache<T>(
+    operation: string,
+    request: Record<string, unknown>,
+    restricted: boolean,
+    options: CacheRequestOptions | undefined,
+    run: () => Promise<{ result: T | null; provider: AIProviderType | null }>
+  ): Promise<T | null> {
+    if (!cacheOptions) {
+      return (await run()).result;
+    }
+
+    const cache = getAICache(restricted ? 'memory' : cacheOptions.storage);
+    const key = `${operation}:${hashCacheKey({
+      executionOrder: effectiveConfig.executionOrder,
+      privacy: effectiveConfig.privacy,
+      prompts: effectiveConfig.prompts,
+      ...request,
+    })}`;
+
+    if (options?.cache !== false) {
+      const hit = await cache.get<T>(key);
+      if (hit) {
+        logger.debug('cache.hit', `Reusing the cached ${operation} response from ${hit.provider}`, {
+          provider: hit.provider,
+        });
+        return hit.value;
+      }
+    }
+
+    const { result, provider } = await run();
+    const config = effectiveConfig.providers?.find(p => p.type === provider);
+    // Providers can opt out of caching
+    if (result !== null && provider && config && config.cache !== false) {
+      await cache.set(key, result, provider, cacheOptions);
+    }
+    return result;
+  }
 
   // ------------------------------------------
   // Suggest Value (Field-specific)
   // ------------------------------------------
-  async function suggestValue(name: string, value: string): Promise<string | null> {
+  async function getSuggestion(
+    name: string,
+    value: string,
+    options?: SuggestionRequestOptions
+  ): Promise<AIResponse | null> {
     if (!enabled) return null;
 
+    const context = readFormContext();
+    const privacy = createPrivacyFilter(context, effectiveConfig.privacy);
+    const field = options?.field ?? { name };
+    const prompts = mergePromptOptions(effectiveConfig.prompts, options?.prompts);
+
     if (effectiveConfig.providers && effectiveConfig.executionOrder) {
-      const { result } = await executeAIProviders(
+      const providers = effectiveConfig.providers;
+      const executionOrder = options?.provider ? [options.provider] : effectiveConfig.executionOrder;
+
+      const result = await withCache(
+        'suggest',
+        { name, value, field, executionOrder, context, prompts },
+        privacy.restricted(value),
+        options,
+        async () => {
+          const execution = await executeAIProviders(
+            providers,
+            executionOrder,
+            effectiveConfig.fallbackOnError,
+            async (provider, { signal, config }) => {
+              const onDevice = isOnDeviceProvider(config);
+              const sharedValue = privacy.value(name, value, onDevice);
+              // The policy keeps this field's value from the provider
+              if (sharedValue === null) return SKIP_PROVIDER;
+
+              const response = await provider.suggestValue(
+                name,
+                sharedValue,
+                privacy.context(onDevice),
+                { signal, field, prompts }
+              );
+              return response;
+            },
+            { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
+          );
+          if (!execution.result && execution.error) {
+            throw execution.error;
+          }
+          return execution;
+        }
+      );
+
+      if (result) {
+        logger.debug('suggestion.received', `AI suggestion for "${name}" from ${result.provider}`, {
+          provider: result.provider,
+          field: name,
+        });
+        return result;
+      }
+    } else {
+      // Legacy fallback: Chrome AI -> Server
+      const legacyResult = await legacySuggestValue(field, value, privacy, prompts, apiUrl, logger, options);
+      return legacyResult;
+    }
+
+    logger.info('suggestion.empty', `No AI suggestion available for "${name}"`, { field: name });
+    return null;
+  }
+
+  async function suggestValue(
+    name: string,
+    value: string,
+    options?: SuggestionRequestOptions
+  ): Promise<string | null> {
+    const response = await getSuggestion(name, value, options);
+    return response?.suggestion ?? null;
+  }
+
+  // ------------------------------------------
+  // Stream Suggestion (Field-specific)
+  // ------------------------------------------
+  async function suggestValueStream(
+    name: string,
+    value: string,
+    onToken: AITokenHandler,
+    options?: SuggestionRequestOptions
+  ): Promise<string | null> {
+    if (!enabled) return null;
+
+    const context = readFormContext();
+    const privacy = createPrivacyFilter(context, effectiveConfig.privacy);
+    const field = options?.field ?? { name };
+    const prompts = mergePromptOptions(effectiveConfig.prompts, options?.prompts);
+
+    if (effectiveConfig.providers && effectiveConfig.executionOrder) {
+      const { result, error } = await executeAIProviders(
         effectiveConfig.providers,
-        effectiveConfig.executionOrder,
+        options?.provider ? [options.provider] : effectiveConfig.executionOrder,
         effectiveConfig.fallbackOnError,
-        async (provider) => {
-          const response = await provider.suggestValue(name, value, formContext);
+        async (provider, { signal, config }) => {
+          const onDevice = isOnDeviceProvider(config);
+          const sharedValue = privacy.value(name, value, onDevice);
+          if (sharedValue === null) return SKIP_PROVIDER;
+
+          const sharedContext = privacy.context(onDevice);
+          if (provider.suggestValueStream) {
+            return provider.suggestValueStream(name, sharedValue, sharedContext, onToken, {
+              signal,
+              field,
+              prompts,
+            });
+          }
+          // Providers without streaming deliver the whole suggestion as one token
+          const response = await provider.suggestValue(name, sharedValue, sharedContext, {
+            signal,
+            field,
+            prompts,
+          });
+          if (response) onToken(response.suggestion, response.suggestion);
           return response;
-        }
+        },
+        { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
       );
 
       if (result) {
-        console.log(`AI suggestion for "${name}" from ${result.provider}:`, result.suggestion);
         return result.suggestion;
       }
+      if (error) {
+        throw error;
+      }
     } else {
-      // Legacy fallback: Chrome AI -> Server
-      const legacyResult = await legacySuggestValue(name, value, formContext, apiUrl);
-      return legacyResult;
+      const legacyResult = await legacySuggestValue(field, value, privacy, prompts, apiUrl, logger, options);
+      if (legacyResult) {
+        onToken(legacyResult.suggestion, legacyResult.suggestion);
+        return legacyResult.suggestion;
+      }
+      return null;
     }
 
-    console.warn('No AI suggestion available.');
+    logger.info('suggestion.empty', `No AI suggestion available for "${name}"`, { field: name });
     return null;
   }
 
@@ -73,73 +353,349 @@ export function useAIAssistant({
   // Auto-fill (Form-wide)
   // ------------------------------------------
   async function autofill(
-    fields: string[],
-    options?: { onDownloadProgress?: (progress: number) => void }
-  ): Promise<AutofillData> {
+    fieldsOrDescriptors: Array<string | AIFieldDescriptor>,
+    options?: AutofillRequestOptions
+  ): Promise<AIAutofillData> {
+    const descriptors = fieldsOrDescriptors.map(toFieldDescriptor);
+    const fields = descriptors.map(field => field.name);
+
     if (!enabled) {
-      return Object.fromEntries(fields.map((f) => [f, 'AI disabled'])) as AutofillData;
+      return Object.fromEntries(fields.map((f) => [f, 'AI disabled'])) as AIAutofillData;
+    }
+
+    const context = readFormContext();
+    const privacy = createPrivacyFilter(context, effectiveConfig.privacy);
+    const prompts = mergePromptOptions(effectiveConfig.prompts, options?.prompts);
+
+    if (effectiveConfig.providers && effectiveConfig.executionOrder) {
+      const providers = effectiveConfig.providers;
+      const executionOrder = effectiveConfig.executionOrder;
+
+      const result = await withCache(
+        'autofill',
+        { descriptors, context, corrections: options?.corrections, prompts },
+        privacy.restricted(),
+        options,
+        async () => {
+          const execution = await executeAIProviders(
+            providers,
+            executionOrder,
+            effectiveConfig.fallbackOnError,
+            async (provider, { signal, config }) => {
+              const data = await provider.autofill(descriptors, privacy.context(isOnDeviceProvider(config)), {
+                onProgress: options?.onDownloadProgress,
+                corrections: options?.corrections,
+                prompts,
+                signal,
+              });
+              return data;
+            },
+            { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
+          );
+          // Failures are reported instead of being replaced with mock values
+          if (!execution.result && execution.error) {
+            throw execution.error;
+          }
+          return execution;
+        }
+      );
+
+      if (result) {
+        return result;
+      }
+    } else {
+      // Legacy fallback
+      const legacyResult = await legacyAutofill(descriptors, privacy, prompts, apiUrl, logger, options);
+      return legacyResult;
     }
 
+    logger.warn('autofill.empty', 'No provider returned autofill values');
+    return {};
+  }
+
+  // ------------------------------------------
+  // Extract (Form-wide)
+  // ------------------------------------------
+  async function extract(
+    input: AIExtractInput,
+    fieldsOrDescriptors: Array<string | AIFieldDescriptor>,
+    options?: ExtractRequestOptions
+  ): Promise<AIExtractData> {
+    if (!enabled) return {};
+
+    const descriptors = fieldsOrDescriptors.map(toFieldDescriptor);
+    const context = readFormContext();
+    const privacy = createPrivacyFilter(context, effectiveConfig.privacy);
+    const prompts = mergePromptOptions(effectiveConfig.prompts, options?.prompts);
+
     if (effectiveConfig.providers && effectiveConfig.executionOrder) {
-      const { result } = await executeAIProviders(
+      const { result, error } = await executeAIProviders(
         effectiveConfig.providers,
         effectiveConfig.executionOrder,
         effectiveConfig.fallbackOnError,
-        async (provider) => {
-          const data = await provider.autofill(fields, formContext, options?.onDownloadProgress);
+        async (provider, { signal, config }) => {
+          // Providers without extraction support are skipped
+          if (!provider.extract) return null;
+          const data = await provider.extract(input, descriptors, privacy.context(isOnDeviceProvider(config)), {
+            onProgress: options?.onDownloadProgress,
+            prompts,
+            signal,
+          });
           return data;
-        }
+        },
+        { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
       );
 
       if (result) {
         return result;
       }
+      if (error) {
+        throw error;
+      }
     } else {
-      // Legacy fallback
-      const legacyResult = await legacyAutofill(fields, formContext, apiUrl, options);
+      const legacyResult = await legacyExtract(input, descriptors, privacy, prompts, apiUrl, logger, options);
       return legacyResult;
     }
 
-    console.warn('AI unavailable — using fallback mock values.');
-    return Object.fromEntries(fields.map((f) => [f, `Example_${f}`])) as AutofillData;
+    logger.warn('extract.unavailable', 'No AI provider could extract values from the input');
+    return {};
+  }
+
+  // ------------------------------------------
+  // Summarize (Form-wide)
+  // ------------------------------------------
+  async function summarize(
+    values: Record<string, any>,
+    fieldsOrDescriptors: Array<string | AIFieldDescriptor>,
+    options?: SummaryRequestOptions
+  ): Promise<string | null> {
+    if (!enabled) return null;
+
+    const descriptors = fieldsOrDescriptors.map(toFieldDescriptor);
+    // The summarized values are subject to the same policy as the form context
+    const privacy = createPrivacyFilter(values, effectiveConfig.privacy);
+    const prompts = mergePromptOptions(effectiveConfig.prompts, options?.prompts);
+    const summaryOptions = {
+      style: options?.style,
+      includeDetails: options?.includeDetails,
+      onProgress: options?.onDownloadProgress,
+      prompts,
+    };
+
+    if (effectiveConfig.providers && effectiveConfig.executionOrder) {
+      const { result, error } = await executeAIProviders(
+        effectiveConfig.providers,
+        effectiveConfig.executionOrder,
+        effectiveConfig.fallbackOnError,
+        async (provider, { signal, config }) => {
+          // Providers without summaries are skipped
+          if (!provider.summarize) return null;
+          const summary = await provider.summarize(privacy.context(isOnDeviceProvider(config)), descriptors, {
+            ...summaryOptions,
+            signal,
+          });
+          return summary;
+        },
+        { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
+      );
+
+      if (result) {
+        return result;
+      }
+      if (error) {
+        throw error;
+      }
+    } else {
+      const legacyResult = await legacySummarize(descriptors, privacy, summaryOptions, apiUrl, logger, options);
+      return legacyResult;
+    }
+
+    logger.warn('summary.unavailable', 'No AI provider could summarize the form');
+    return null;
+  }
+
+  // ------------------------------------------
+  // Writing Assistance (Field-specific)
+  // ------------------------------------------
+  async function runTextTask<R>(
+    task: 'proofread' | 'rewrite' | 'write' | 'translate',
+    field: AIFieldDescriptor,
+    text: string,
+    run: (provider: AIProviderExecutor, text: string, signal?: AbortSignal) => Promise<R | null>,
+    options?: TextTaskRequestOptions
+  ): Promise<{ result: R; provider: AIProviderType } | null> {
+    if (!enabled) return null;
+
+    const context = readFormContext();
+    const privacy = createPrivacyFilter(context, effectiveConfig.privacy);
+    // Without configured providers, Chrome is tried before the server, as in the legacy setup
+    const {
+      providers = [{ type: 'chrome' }, { type: 'custom', apiUrl }] as AIProvider[],
+      executionOrder = ['chrome', 'custom'],
+    } = effectiveConfig.providers && effectiveConfig.executionOrder ? effectiveConfig : {};
+
+    const { result, provider, error } = await executeAIProviders(
+      providers,
+      options?.provider ? [options.provider] : executionOrder,
+      effectiveConfig.fallbackOnError,
+      async (executor, { signal, config }) => {
+        const sharedText = privacy.value(field.name, text, isOnDeviceProvider(config));
+        // The policy keeps this field's value from the provider
+        if (sharedText === null) return SKIP_PROVIDER;
+        return run(executor, sharedText, signal);
+      },
+      { signal: options?.signal, resilience: effectiveConfig.resilience, logger }
+    );
+
+    if (result !== null && provider) {
+      return { result, provider };
+    }
+    if (error) {
+      throw error;
+    }
+
+    logger.warn(`${task}.unavailable`, `No AI provider could ${task} "${field.name}"`, { field: field.name });
+    return null;
+  }
+
+  /**
+   * Correct spelling and grammar without changing what the text says
+   */
+  async function proofread(
+    nameOrDescriptor: string | AIFieldDescriptor,
+    value: string,
+    options?: TextTaskRequestOptions
+  ): Promise<(AIProofreadResult & { provider: AIProviderType }) | null> {
+    const field = toFieldDescriptor(nameOrDescriptor);
+    const response = await runTextTask(
+      'proofread',
+      field,
+      value,
+      async (provider, text, signal) => provider.proofread?.(text, {
+        field,
+        onProgress: options?.onDownloadProgress,
+        signal,
+      }) ?? null,
+      options
+    );
+    return response && { ...response.result, provider: response.provider };
+  }
+
+  async function rewrite(
+    nameOrDescriptor: string | AIFieldDescriptor,
+    value: string,
+    options?: RewriteRequestOptions
+  ): Promise<AIResponse | null> {
+    const field = toFieldDescriptor(nameOrDescriptor);
+    const response = await runTextTask(
+      'rewrite',
+      field,
+      value,
+      async (provider, text, signal) => provider.rewrite?.(text, {
+        field,
+        tone: options?.tone,
+        length: options?.length,
+        onProgress: options?.onDownloadProgress,
+        signal,
+      }) ?? null,
+      options
+    );
+    return response && { suggestion: response.result, provider: response.provider };
+  }
+
+  /**
+   * Draft a field's text from a short description of what it should say
+   */
+  async function write(
+    nameOrDescriptor: string | AIFieldDescriptor,
+    prompt: string,
+    options?: WriteRequestOptions
+  ): Promise<AIResponse | null> {
+    const field = toFieldDescriptor(nameOrDescriptor);
+    const response = await runTextTask(
+      'write',
+      field,
+      prompt,
+      async (provider, text, signal) => provider.write?.(text, {
+        field,
+        tone: options?.tone,
+        length: options?.length,
+        locale: effectiveConfig.prompts?.locale,
+        onProgress: options?.onDownloadProgress,
+        signal,
+      }) ?? null,
+      options
+    );
+    return response && { suggestion: response.result, provider: response.provider };
+  }
+
+  // ------------------------------------------
+  // Translate (Field-specific)
+  // ------------------------------------------
+  async function translate(
+    nameOrDescriptor: string | AIFieldDescriptor,
+    value: string,
+    targetLocale: string,
+    options?: TranslateRequestOptions
+  ): Promise<AIResponse | null> {
+    const field = toFieldDescriptor(nameOrDescriptor);
+    const response = await runTextTask(
+      'translate',
+      field,
+      value,
+      async (provider, text, signal) => provider.translate?.(text, {
+        field,
+        targetLocale,
+        sourceLocale: options?.sourceLocale,
+        prompts: effectiveConfig.prompts,
+        onProgress: options?.onDownloadProgress,
+        signal,
+      }) ?? null,
+      options
+    );
+    return response && { suggestion: response.result, provider: response.provider };
   }
 
   // ------------------------------------------
   // Check Availability
   // ------------------------------------------
-  async function checkAvailability(): Promise<{
-    available: boolean;
-    status: string;
-    needsDownload: boolean;
-  }> {
+  async function checkAvailability(options?: AIRequestOptions): Promise<AIAvailability> {
     if (effectiveConfig.providers && effectiveConfig.executionOrder && effectiveConfig.executionOrder.length > 0) {
       // Check first provider in execution order
       const firstProviderType = effectiveConfig.executionOrder[0];
       const firstProvider = effectiveConfig.providers.find(p => p.type === firstProviderType);
       
       if (firstProvider) {
-        const { createAIProvider } = await import('../aiProviders');
         const provider = createAIProvider(firstProvider);
-        return provider.checkAvailability();
+        return provider.checkAvailability(options);
       }
     }
 
     // Legacy Chrome AI check
-    return legacyCheckAvailability();
+    return legacyCheckAvailability(logger, options);
   }
 
-  return {
+  // Stable for effects and callbacks; calls use the latest providers and options
+  return useStableFunctions({
     suggestValue,
+    getSuggestion,
+    suggestValueStream,
     autofill,
+    extract,
+    summarize,
+    proofread,
+    rewrite,
+    write,
+    translate,
     checkAvailability,
-  };
+  });
 }
 
 // ------------------------------------------
 // Legacy Functions (for backward compatibility)
 // ------------------------------------------
 
-async function legacyCheckAvailability() {
+async function legacyCheckAvailability(logger: AILogger, options?: AIRequestOptions) {
   if (typeof window === 'undefined' || typeof (window as any).ai?.languageModel === 'undefined') {
     return {
       available: false,
@@ -149,6 +705,7 @@ async function legacyCheckAvailability() {
   }
 
   try {
+    throwIfAborted(options?.signal);
     const availability = await (window as any).ai.languageModel.availability();
     return {
       available: availability !== 'unavailable',
@@ -156,7 +713,8 @@ async function legacyCheckAvailability() {
       needsDownload: availability === 'downloadable',
     };
   } catch (err) {
-    console.error('Error checking availability:', err);
+    if (isAbortError(err)) throw err;
+    logger.error('availability.failed', 'Error checking availability', { provider: 'chrome', error: err });
     return {
       available: false,
       status: 'error',
@@ -166,74 +724,75 @@ async function legacyCheckAvailability() {
 }
 
 async function legacySuggestValue(
-  name: string,
+  field: AIFieldDescriptor,
   value: string,
-  formContext: Record<string, any>,
-  apiUrl: string
-): Promise<string | null> {
-  // Try Chrome AI first
-  const chromeResult = await legacyUseChromeAI(
-    `You are assisting with form completion. The user is filling out a field named "${name}".
-
-Current value: "${value}"
-Form context: ${JSON.stringify(formContext, null, 2)}
-
-Based on the field name, current value, and form context, suggest an improved, corrected, or realistic completion for this field.
-
-Rules:
-- Respond with ONLY the suggested value
-- No explanations or additional text
-- If the current value is already good, return it as-is
-- Make sure the suggestion is appropriate for the field name
+  privacy: PrivacyFilter,
+  prompts: AIPromptOptions | undefined,
+  apiUrl: string,
+  logger: AILogger,
+  options?: AIRequestOptions
+): Promise<AIResponse | null> {
+  const name = field.name;
 
-Suggested value:`
+  // Try Chrome AI first
+  const localValue = privacy.value(name, value, true);
+  const chromeResult = localValue !== null && await legacyUseChromeAI(
+    buildSuggestPrompt(field, localValue, privacy.context(true), prompts),
+    logger,
+    options
   );
 
   if (chromeResult) {
     const cleaned = chromeResult.trim().replace(/^["']|["']$/g, '');
-    console.log(`AI suggestion for "${name}":`, cleaned);
-    return cleaned;
+    logger.debug('suggestion.received', `AI suggestion for "${name}" from chrome`, {
+      provider: 'chrome',
+      field: name,
+    });
+    return { suggestion: cleaned, provider: 'chrome' };
   }
 
   // Fallback to server
+  const remoteValue = privacy.value(name, value, false);
+  if (remoteValue === null) return null;
+  const { instructions } = withInstructions(field, prompts);
+
   try {
     const response = await fetch(`${apiUrl}/api/suggest`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ fieldName: name, currentValue: value, formContext }),
+      body: JSON.stringify({
+        fieldName: name,
+        currentValue: remoteValue,
+        formContext: privacy.context(false),
+        ...(instructions && { instructions }),
+      }),
+      signal: options?.signal,
     });
 
-    if (response.ok) {
-      const data = await response.json();
-      return data.suggestion || null;
-    }
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, 'custom');
+
+    const data = await response.json();
+    return data.suggestion ? { suggestion: data.suggestion, provider: 'custom' } : null;
   } catch (err) {
-    console.error('Server AI error:', err);
+    if (isAbortError(err)) throw err;
+    // The server is the last resort, so its failure is the request's failure
+    throw toAIError(err, 'custom');
   }
-
-  return null;
 }
 
 async function legacyAutofill(
-  fields: string[],
-  formContext: Record<string, any>,
+  descriptors: AIFieldDescriptor[],
+  privacy: PrivacyFilter,
+  prompts: AIPromptOptions | undefined,
   apiUrl: string,
-  options?: { onDownloadProgress?: (progress: number) => void }
-): Promise<AutofillData> {
-  const prompt = `You are an intelligent form assistant. Generate realistic example values for a form.
+  logger: AILogger,
+  options?: AutofillRequestOptions
+): Promise<AIAutofillData> {
+  const fields = descriptors.map(field => field.name);
+  const corrections = options?.corrections ?? [];
+  const prompt = buildAutofillPrompt(descriptors, privacy.context(true), corrections, prompts);
 
-Form fields: ${fields.join(', ')}
-Context: ${JSON.stringify(formContext, null, 2)}
-
-Generate realistic, appropriate values for each field based on the field names and context.
-Output ONLY a valid JSON object with these exact field names as keys.
-
-Example format:
-{"name": "Alice Johnson", "email": "alice@example.com", "age": "29"}
-
-JSON object:`;
-
-  const result = await legacyUseChromeAI(prompt, options);
+  const result = await legacyUseChromeAI(prompt, logger, options);
 
   if (result) {
     try {
@@ -245,7 +804,10 @@ JSON object:`;
         }
       }
     } catch (err) {
-      console.warn('Chrome AI returned invalid JSON, trying server...', err);
+      logger.warn('autofill.invalid-json', 'Chrome AI returned invalid JSON, trying server', {
+        provider: 'chrome',
+        error: err,
+      });
     }
   }
 
@@ -254,29 +816,112 @@ JSON object:`;
     const response = await fetch(`${apiUrl}/api/autofill`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ fields, formContext }),
+      body: JSON.stringify({
+        fields,
+        schema: descriptors.map(field => withInstructions(field, prompts)),
+        formContext: privacy.context(false),
+        ...(corrections.length && { corrections }),
+      }),
+      signal: options?.signal,
     });
 
-    if (response.ok) {
-      const data = await response.json();
-      const parsed = typeof data.autofillData === 'string' 
-        ? JSON.parse(data.autofillData) 
-        : data.autofillData;
-      
-      if (typeof parsed === 'object' && parsed !== null) {
-        return parsed as AutofillData;
+    if (!response.ok) throw await AIHTTPError.fromResponse(response, 'custom');
+
+    const data = await response.json();
+    const parsed = typeof data.autofillData === 'string'
+      ? parseJSONObject(data.autofillData, 'custom')
+      : data.autofillData;
+
+    if (typeof parsed === 'object' && parsed !== null) {
+      return parsed as AIAutofillData;
+    }
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw toAIError(err, 'custom');
+  }
+
+  logger.warn('autofill.empty', 'The server returned no autofill values', { provider: 'custom' });
+  return {};
+}
+
+async function legacyExtract(
+  input: AIExtractInput,
+  descriptors: AIFieldDescriptor[],
+  privacy: PrivacyFilter,
+  prompts: AIPromptOptions | undefined,
+  apiUrl: string,
+  logger: AILogger,
+  options?: ExtractRequestOptions
+): Promise<AIExtractData> {
+  // Try Chrome AI first; it only reads text
+  const text = await readExtractText(input, 'chrome').catch(() => null);
+  if (text !== null) {
+    const prompt = buildExtractPrompt(text, descriptors, privacy.context(true), prompts);
+    const result = await legacyUseChromeAI(prompt, logger, options);
+
+    if (result) {
+      try {
+        return toExtractData(parseJSONObject(result, 'chrome'), descriptors, text);
+      } catch (err) {
+        logger.warn('extract.invalid-json', 'Chrome AI returned invalid JSON, trying server', {
+          provider: 'chrome',
+          error: err,
+        });
       }
     }
+  }
+
+  // Fallback to server
+  try {
+    const server = createAIProvider({ type: 'custom', apiUrl });
+    const data = await server.extract?.(input, descriptors, privacy.context(false), {
+      prompts,
+      signal: options?.signal,
+    });
+    if (data) return data;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw toAIError(err, 'custom');
+  }
+
+  return {};
+}
+
+async function legacySummarize(
+  descriptors: AIFieldDescriptor[],
+  privacy: PrivacyFilter,
+  options: SummaryOptions & { prompts?: AIPromptOptions },
+  apiUrl: string,
+  logger: AILogger,
+  requestOptions?: SummaryRequestOptions
+): Promise<string | null> {
+  // Try Chrome AI first
+  const prompt = buildSummaryPrompt(privacy.context(true), descriptors, options, options.prompts);
+  const result = await legacyUseChromeAI(prompt, logger, requestOptions);
+  if (result?.trim()) {
+    return result.trim();
+  }
+
+  // Fallback to server
+  try {
+    const server = createAIProvider({ type: 'custom', apiUrl });
+    const summary = await server.summarize?.(privacy.context(false), descriptors, {
+      ...options,
+      signal: requestOptions?.signal,
+    });
+    if (summary) return summary;
   } catch (err) {
-    console.error('Server autofill error:', err);
+    if (isAbortError(err)) throw err;
+    throw toAIError(err, 'custom');
   }
 
-  return Object.fromEntries(fields.map((f) => [f, `Example_${f}`])) as AutofillData;
+  return null;
 }
 
 async function legacyUseChromeAI(
-  prompt: string,
-  options?: { onDownloadProgress?: (progress: number) => void }
+  prompt: AIPrompt,
+  logger: AILogger,
+  options?: AutofillRequestOptions
 ): Promise<string | null> {
   if (typeof window === 'undefined' || typeof (window as any).ai?.languageModel === 'undefined') {
     return null;
@@ -284,6 +929,8 @@ async function legacyUseChromeAI(
 
   try {
     const session = await (window as any).ai.languageModel.create({
+      signal: options?.signal,
+      initialPrompts: [{ role: 'system', content: prompt.system }],
       monitor(m: any) {
         m.addEventListener('downloadprogress', (e: any) => {
           options?.onDownloadProgress?.(e.loaded * 100);
@@ -291,12 +938,14 @@ async function legacyUseChromeAI(
       },
     });
 
-    const result = await session.prompt(prompt);
-    session.destroy();
-
-    return result;
+    try {
+      return await session.prompt(prompt.user, { signal: options?.signal });
+    } finally {
+      session.destroy();
+    }
   } catch (err) {
-    console.error('Chrome AI error:', err);
+    if (isAbortError(err)) throw err;
+    logger.error('provider.failed', 'Chrome AI error', { provider: 'chrome', error: err });
     return null;
   }
 }
\ No newline at end of file
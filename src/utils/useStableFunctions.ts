@@ -0,0 +1,24 @@
+import { useMemo, useRef } from 'react';
+
+type FunctionMap = Record<string, (...args: any[]) => any>;
+
+/**
+ * An object with the same functions that keeps its identity across renders.
+ * Each call goes to the functions from the latest render, so they see the
+ * current config without invalidating callbacks and effects that use them.
+ */
+export function useStableFunctions<T extends FunctionMap>(functions: T): T {
+  const latest = useRef(functions);
+  latest.current = functions;
+
+  return useMemo(
+    () =>
+      Object.fromEntries(
+        Object.keys(latest.current).map(key => [
+          key,
+          (...args: unknown[]) => latest.current[key](...args),
+        ])
+      ) as T,
+    []
+  );
+}
@@ -0,0 +1,52 @@
+import type { FieldValues, Resolver, UseFormProps } from 'react-hook-form';
+import { get, set } from 'react-hook-form';
+
+import type { AIAutofillCorrection } from '../types';
+
+function cloneValues<V>(value: V): V {
+  if (Array.isArray(value)) {
+    return value.map(cloneValues) as unknown as V;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneValues(item)])
+    ) as V;
+  }
+  return value;
+}
+
+/**
+ * Run the form's resolver against the current values with `candidates`
+ * applied, and return the candidates that fail validation.
+ */
+export async function findResolverErrors<T extends FieldValues>(
+  resolver: Resolver<T, any, any>,
+  currentValues: T,
+  candidates: Record<string, unknown>,
+  options: Pick<UseFormProps<T>, 'context' | 'criteriaMode'>
+): Promise<AIAutofillCorrection[]> {
+  const values = cloneValues(currentValues);
+  for (const [name, value] of Object.entries(candidates)) {
+    set(values, name, value);
+  }
+
+  const { errors } = await resolver(values, options.context, {
+    criteriaMode: options.criteriaMode,
+    fields: {},
+    names: Object.keys(candidates) as any,
+    shouldUseNativeValidation: false,
+  });
+
+  const corrections: AIAutofillCorrection[] = [];
+  for (const [name, value] of Object.entries(candidates)) {
+    const error = get(errors, name);
+    if (error) {
+      corrections.push({
+        name,
+        value,
+        message: String(error.message || error.type || 'Invalid value'),
+      });
+    }
+  }
+  return corrections;
+}